@@ -1,35 +1,78 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { GeminiService } from './services/geminiService';
+import { GeminiProvider } from './services/geminiProvider';
+import { MockProvider } from './services/mockProvider';
+import { ConversationProvider } from './services/providers';
+import { buildAvatarTools, createAvatarToolHandler } from './services/avatarTools';
 import { ControlPanel } from './components/ControlPanel';
 import { BackgroundPanel } from './components/BackgroundPanel';
-import { DigitalHuman } from './components/DigitalHuman';
-import { ConnectionState, Message, AnimationControl, MorphTargetControl, BoneControl, Background } from './types';
+import { PersonaPanel } from './components/PersonaPanel';
+import { SessionPanel } from './components/SessionPanel';
+import { ConversationStore, DEFAULT_SESSION_TITLE, createSession, getSessionTitle } from './services/conversations';
+import { DEFAULT_PERSONA, PERSONA_PRESETS } from './services/personas';
+import { RecorderState, downloadRecording } from './services/sessionRecorder';
+import { DigitalHuman, DigitalHumanHandle } from './components/DigitalHuman';
+import { ConnectionDetails, ConnectionState, ConversationSession, ExpressionName, InputMode, LookAtTarget, Message, AnimationControl, MorphTargetControl, BoneControl, Background, ModelReport, Persona } from './types';
+
+// Live transcripts are re-emitted under the same id as they grow, so replace instead of append
+function upsertMessage(messages: Message[], msg: Message): Message[] {
+  const index = messages.findIndex(m => m.id === msg.id);
+  if (index === -1) return [...messages, msg];
+  const next = [...messages];
+  next[index] = msg;
+  return next;
+}
 
 export default function App() {
+  // Without a backend the app runs fully offline against canned replies and synthesized speech
+  const provider = useMemo<ConversationProvider>(
+    () => process.env.BACKEND_URL ? new GeminiProvider({ backendUrl: process.env.BACKEND_URL }) : new MockProvider(),
+    []
+  );
+
+  // Built-in personas plus any imported from JSON; picking one also resets model, background and expression
+  const [personas, setPersonas] = useState<Persona[]>(PERSONA_PRESETS);
+  const [persona, setPersona] = useState<Persona>(DEFAULT_PERSONA);
+
   // Use local default.glb file from public folder
-  const [modelUrl, setModelUrl] = useState<string | null>('/default.glb');
+  const [modelUrl, setModelUrl] = useState<string | null>(DEFAULT_PERSONA.modelUrl!);
   
   // Default to a fresh bright gradient background
-  const [background, setBackground] = useState<Background>({ 
-    type: 'gradient', 
-    value: 'linear-gradient(120deg, #84fab0 0%, #8fd3f4 100%)' 
-  });
+  const [background, setBackground] = useState<Background>(DEFAULT_PERSONA.background!);
   
   const [isBgPanelOpen, setIsBgPanelOpen] = useState(false);
+  const [isPersonaPanelOpen, setIsPersonaPanelOpen] = useState(false);
+  const [isSessionPanelOpen, setIsSessionPanelOpen] = useState(false);
+  // Webcam stream while the user's own face drives the avatar
+  const [faceStream, setFaceStream] = useState<MediaStream | null>(null);
+  const [recordingState, setRecordingState] = useState<RecorderState>('inactive');
+  // Transparent recordings leave out the background, for compositing in a video editor
+  const [isTransparentRecording, setIsTransparentRecording] = useState(false);
 
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
+  // Why the session failed, reconnect progress, or a warning that the server will end it soon
+  const [connectionDetails, setConnectionDetails] = useState<ConnectionDetails | undefined>();
   const [messages, setMessages] = useState<Message[]>([]);
+  // Conversations are saved to IndexedDB as they complete; a new one is only saved once it has messages
+  const conversationStore = useMemo(() => new ConversationStore(), []);
+  const [sessions, setSessions] = useState<ConversationSession[]>([]);
+  const [session, setSession] = useState<ConversationSession | null>(null);
   const [inputText, setInputText] = useState('');
+  const [inputMode, setInputMode] = useState<InputMode>(InputMode.ALWAYS_ON);
+  const [isTalking, setIsTalking] = useState(false);
   
   const [animations, setAnimations] = useState<AnimationControl[]>([]);
   const [morphs, setMorphs] = useState<MorphTargetControl[]>([]);
   const [boneControls, setBoneControls] = useState<BoneControl[]>([]);
+  const [modelReport, setModelReport] = useState<ModelReport | null>(null);
   const [isDebuggingBones, setIsDebuggingBones] = useState(false);
 
   // New state to control the DigitalHuman component
-  const [textToSpeak, setTextToSpeak] = useState<string>('');
-  const [audioToPlay, setAudioToPlay] = useState<string>('');
+  const [expression, setExpression] = useState<ExpressionName>('neutral');
+  const [lookAt, setLookAt] = useState<LookAtTarget>('viewer');
 
+  const avatarRef = useRef<DigitalHumanHandle>(null);
+  const liveTranscriptRef = useRef('');
   const geminiRef = useRef<GeminiService | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
@@ -39,31 +82,147 @@ export default function App() {
       [ConnectionState.DISCONNECTED]: '未连接',
       [ConnectionState.CONNECTING]: '连接中',
       [ConnectionState.CONNECTED]: '已连接',
+      [ConnectionState.RECONNECTING]: '重连中',
       [ConnectionState.ERROR]: '错误',
   }
 
+  // The microphone stays open while a dropped session is resumed
+  const isVoiceActive = connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.RECONNECTING;
+  const connectionNote =
+      connectionState === ConnectionState.ERROR ? connectionDetails?.error?.message :
+      connectionState === ConnectionState.RECONNECTING && connectionDetails?.reconnectAttempt ? `第 ${connectionDetails.reconnectAttempt} 次重试` :
+      connectionState === ConnectionState.CONNECTED && connectionDetails?.sessionEndsInMs !== undefined ? `${Math.round(connectionDetails.sessionEndsInMs / 1000)} 秒后自动续接会话` :
+      undefined;
+
+  const inputModeText: Record<InputMode, string> = {
+      [InputMode.ALWAYS_ON]: '常开',
+      [InputMode.PUSH_TO_TALK]: '按键说话',
+      [InputMode.VOICE_ACTIVITY]: '语音检测',
+  }
+
   useEffect(() => {
     isMounted.current = true;
     geminiRef.current = new GeminiService(
-      (state) => { if(isMounted.current) setConnectionState(state) },
-      (msg) => { if(isMounted.current) setMessages(prev => [...prev, msg]) },
-      (audioChunk) => { if(isMounted.current) setAudioToPlay(audioChunk) }
+      (state, details) => {
+        if (!isMounted.current) return;
+        setConnectionState(state);
+        setConnectionDetails(details);
+      },
+      (msg) => {
+        if (!isMounted.current) return;
+        setMessages(prev => upsertMessage(prev, msg));
+        // The live transcript captions the reply audio it belongs to
+        if (msg.role === 'model') {
+          liveTranscriptRef.current = msg.isPartial ? msg.text : '';
+          if (msg.isPartial) avatarRef.current?.setStreamText(msg.text);
+        }
+      },
+      (audioChunk) => { avatarRef.current?.enqueueAudio(audioChunk, { text: liveTranscriptRef.current }) },
+      () => { avatarRef.current?.stop({ listen: true }) },
+      provider
     );
 
     return () => {
       isMounted.current = false;
       geminiRef.current?.disconnect();
     };
+  }, [provider]);
+
+  useEffect(() => {
+    geminiRef.current?.setInputMode(inputMode);
+  }, [inputMode]);
+
+  const openSession = useCallback((next: ConversationSession) => {
+    avatarRef.current?.stop();
+    setSession(next);
+    setMessages(next.messages);
+    geminiRef.current?.setContextSummary(next.summary ?? null);
+  }, []);
+
+  // Pick up where the last conversation left off
+  useEffect(() => {
+    conversationStore.list()
+      .then((saved) => {
+        if (!isMounted.current) return;
+        setSessions(saved);
+        openSession(saved[0] || createSession(DEFAULT_PERSONA.id));
+      })
+      .catch((e) => {
+        console.error("Loading conversations failed", e);
+        openSession(createSession(DEFAULT_PERSONA.id));
+      });
+  }, [conversationStore, openSession]);
+
+  // Save whenever the conversation settles, i.e. no transcript or reply is still streaming in
+  useEffect(() => {
+    if (!session || messages === session.messages || !messages.length || messages.some(m => m.isPartial)) return;
+    const saved: ConversationSession = {
+      ...session,
+      title: session.title === DEFAULT_SESSION_TITLE ? getSessionTitle(messages) : session.title,
+      updatedAt: new Date(),
+      messages,
+      summary: geminiRef.current?.getContextSummary() ?? undefined,
+    };
+    setSession(saved);
+    setSessions(prev => [saved, ...prev.filter(s => s.id !== saved.id)]);
+    conversationStore.save(saved).catch(e => console.error("Saving the conversation failed", e));
+  }, [messages, session, conversationStore]);
+
+  useEffect(() => {
+    geminiRef.current?.setPersona(persona);
+  }, [persona, provider]);
+
+  // Let the model drive the avatar through function calls
+  useEffect(() => {
+    const handler = createAvatarToolHandler({
+      playAnimation: (name) => {
+        const anim = animations.find(a => a.name === name);
+        anim?.play();
+        return !!anim;
+      },
+      setExpression,
+      setBackground,
+      lookAt: setLookAt,
+    });
+    geminiRef.current?.setTools(buildAvatarTools(animations.map(a => a.name)), handler);
+  }, [animations, provider]);
+
+  const handleTalk = useCallback((active: boolean) => {
+    setIsTalking(active);
+    geminiRef.current?.setPushToTalk(active);
   }, []);
 
+  // Hold Space to talk, unless the user is typing
+  useEffect(() => {
+    if (inputMode !== InputMode.PUSH_TO_TALK || !isVoiceActive) return;
+    const isTyping = (e: KeyboardEvent) => e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.repeat || isTyping(e)) return;
+      e.preventDefault();
+      handleTalk(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      handleTalk(false);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      handleTalk(false);
+    };
+  }, [inputMode, isVoiceActive, handleTalk]);
+
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  const handleAvatarReady = useCallback(({ animations, morphs, bones }: { animations: AnimationControl[], morphs: MorphTargetControl[], bones: BoneControl[] }) => {
+  const handleAvatarReady = useCallback(({ animations, morphs, bones, report }: { animations: AnimationControl[], morphs: MorphTargetControl[], bones: BoneControl[], report: ModelReport }) => {
       setAnimations(animations);
       setMorphs(morphs);
       setBoneControls(bones);
+      setModelReport(report);
   }, []);
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -74,12 +233,108 @@ export default function App() {
       if (currentUrl && currentUrl.startsWith('blob:')) {
           URL.revokeObjectURL(currentUrl);
       }
+      setModelReport(null);
       setModelUrl(URL.createObjectURL(file));
     }
   };
 
+  const handlePersonaSelect = (next: Persona) => {
+    if (modelUrl && modelUrl.startsWith('blob:')) {
+        URL.revokeObjectURL(modelUrl);
+    }
+    const nextModelUrl = next.modelUrl || DEFAULT_PERSONA.modelUrl!;
+    if (nextModelUrl !== modelUrl) setModelReport(null);
+    setPersona(next);
+    setModelUrl(nextModelUrl);
+    setBackground(next.background || DEFAULT_PERSONA.background!);
+    setExpression(next.expression || 'neutral');
+  };
+
+  const handlePersonaImport = (imported: Persona) => {
+    // Re-importing a persona replaces the earlier copy
+    setPersonas(prev => [...prev.filter(p => p.id !== imported.id), imported]);
+    handlePersonaSelect(imported);
+  };
+
+  const handleSessionRename = async (id: string, title: string) => {
+    const rename = (s: ConversationSession) => s.id === id ? { ...s, title } : s;
+    setSessions(prev => prev.map(rename));
+    setSession(prev => prev && rename(prev));
+    try {
+      await conversationStore.rename(id, title);
+    } catch (e) {
+      console.error("Renaming the conversation failed", e);
+    }
+  };
+
+  const handleSessionDelete = async (id: string) => {
+    setSessions(prev => prev.filter(s => s.id !== id));
+    if (session?.id === id) openSession(createSession(persona.id));
+    try {
+      await conversationStore.delete(id);
+    } catch (e) {
+      console.error("Deleting the conversation failed", e);
+    }
+  };
+
+  const handleSessionImport = async (imported: ConversationSession) => {
+    // Re-importing a conversation replaces the earlier copy
+    setSessions(prev => [imported, ...prev.filter(s => s.id !== imported.id)]);
+    openSession(imported);
+    try {
+      await conversationStore.save(imported);
+    } catch (e) {
+      console.error("Saving the conversation failed", e);
+    }
+  };
+
+  const stopFaceTracking = useCallback(() => {
+    setFaceStream(stream => {
+      stream?.getTracks().forEach(track => track.stop());
+      return null;
+    });
+  }, []);
+
+  const handleFaceTrackingToggle = async () => {
+    if (faceStream) {
+      stopFaceTracking();
+      return;
+    }
+    try {
+      setFaceStream(await navigator.mediaDevices.getUserMedia({ video: { width: 640, height: 480 } }));
+    } catch (e) {
+      console.error("Camera access failed", e);
+    }
+  };
+
+  const handleRecordToggle = async () => {
+    if (!avatarRef.current) return;
+    if (recordingState === 'inactive') {
+      try {
+        await avatarRef.current.startRecording({ transparent: isTransparentRecording });
+        setRecordingState('recording');
+      } catch (e) {
+        console.error("Recording failed", e);
+      }
+      return;
+    }
+    setRecordingState('inactive');
+    const video = await avatarRef.current.stopRecording();
+    if (video) downloadRecording(video);
+  };
+
+  const handleRecordPause = () => {
+    if (recordingState === 'recording') {
+      avatarRef.current?.pauseRecording();
+      setRecordingState('paused');
+    } else if (recordingState === 'paused') {
+      avatarRef.current?.resumeRecording();
+      setRecordingState('recording');
+    }
+  };
+
   const handleConnectToggle = () => {
-    if (connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.CONNECTING) {
+    if (isVoiceActive || connectionState === ConnectionState.CONNECTING) {
       geminiRef.current?.disconnect();
     } else {
       geminiRef.current?.connect();
@@ -91,35 +346,36 @@ export default function App() {
     
     const userMsg: Message = { id: Date.now().toString(), role: 'user', text: inputText, timestamp: new Date() };
     
-    const history = [...messages];
+    // Voice transcripts become part of the text history once their turn has completed
+    const history = messages.filter(m => !m.isPartial && m.text);
     
     setMessages(prev => [...prev, userMsg]);
     const currentInput = inputText;
     setInputText('');
 
-    try {
-      const responseText = await geminiRef.current.sendMessage(currentInput, history);
-      
-      // Extremely defensive string conversion to prevent React Error #31
-      let safeText = "无回应";
-      if (typeof responseText === 'string') {
-          safeText = responseText;
-      } else if (responseText !== null && responseText !== undefined) {
-          try {
-             // If it's an object, try to stringify it, otherwise cast
-             safeText = typeof responseText === 'object' ? JSON.stringify(responseText) : String(responseText);
-          } catch {
-              safeText = "Response Error";
-          }
-      }
+    // The reply bubble is filled in as tokens stream in; each finished sentence is queued for speech
+    const aiMsgId = (Date.now() + 1).toString();
+    const aiMsg: Message = { id: aiMsgId, role: 'model', text: '', timestamp: new Date(), isPartial: true };
+    setMessages(prev => [...prev, aiMsg]);
+    // Sentence expressions are applied inside the avatar, so the reset goes there too
+    avatarRef.current?.setExpression(persona.expression || 'neutral');
+    let isFirstSentence = true;
 
-      const aiMsg: Message = { id: (Date.now() + 1).toString(), role: 'model', text: safeText, timestamp: new Date() };
-      setMessages(prev => [...prev, aiMsg]);
-      setTextToSpeak(safeText);
+    try {
+      const responseText = await geminiRef.current.streamMessage(
+        currentInput,
+        history,
+        (textSoFar) => setMessages(prev => upsertMessage(prev, { ...aiMsg, text: textSoFar })),
+        (sentence, sentenceExpression) => {
+          // A new reply cuts off whatever is left of the previous one; the face changes as the sentence is heard
+          avatarRef.current?.speak(sentence, { interrupt: isFirstSentence, expression: sentenceExpression });
+          isFirstSentence = false;
+        }
+      );
+      setMessages(prev => upsertMessage(prev, { ...aiMsg, text: responseText, isPartial: false }));
     } catch (e) { 
         console.error(e);
-        const errorMsg: Message = { id: (Date.now() + 1).toString(), role: 'model', text: "抱歉，发生了一些错误。", timestamp: new Date() };
-        setMessages(prev => [...prev, errorMsg]);
+        setMessages(prev => upsertMessage(prev, { ...aiMsg, text: "抱歉，发生了一些错误。", isPartial: false }));
     }
   };
 
@@ -139,13 +395,18 @@ export default function App() {
     <div className="relative w-full h-screen overflow-hidden bg-black text-white font-sans">
       
       <DigitalHuman
-        apiKey={process.env.API_KEY || ''}
+        ref={avatarRef}
+        ttsProvider={provider}
+        persona={persona}
         modelUrl={modelUrl}
         background={background}
-        textToSpeak={textToSpeak}
-        audioToPlay={audioToPlay}
+        expression={expression}
+        lookAt={lookAt}
         onReady={handleAvatarReady}
         isDebuggingBones={isDebuggingBones}
+        captions={{ position: 'top' }}
+        faceTrackingStream={faceStream}
+        onFaceTrackingError={stopFaceTracking}
         className="absolute inset-0 z-0"
       />
 
@@ -157,7 +418,7 @@ export default function App() {
                Gemini 3D 数字人
              </h1>
              <div className="flex gap-2">
-                <input type="file" accept=".glb,.gltf" ref={fileInputRef} className="hidden" onChange={handleFileUpload} />
+                <input type="file" accept=".glb,.gltf,.vrm" ref={fileInputRef} className="hidden" onChange={handleFileUpload} />
                 <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-md text-xs font-medium transition-colors border border-gray-600">
                   <i className="fas fa-upload text-blue-400"></i> 模型
                 </button>
@@ -167,6 +428,49 @@ export default function App() {
                 >
                   <i className="fas fa-image text-purple-400"></i> 背景
                 </button>
+                <button 
+                  onClick={() => setIsPersonaPanelOpen(!isPersonaPanelOpen)} 
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-xs font-medium transition-colors border border-gray-600 ${isPersonaPanelOpen ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+                  title={persona.name}
+                >
+                  <i className="fas fa-user-circle text-yellow-400"></i> 人设
+                </button>
+                <button 
+                  onClick={() => setIsSessionPanelOpen(!isSessionPanelOpen)} 
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-xs font-medium transition-colors border border-gray-600 ${isSessionPanelOpen ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+                  title={session?.title}
+                >
+                  <i className="fas fa-comments text-sky-400"></i> 会话
+                </button>
+                <button
+                  onClick={handleFaceTrackingToggle}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-xs font-medium transition-colors border border-gray-600 ${faceStream ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+                  title="用摄像头驱动数字人的表情和头部"
+                >
+                  <i className="fas fa-video text-green-400"></i> 面捕
+                </button>
+             </div>
+             <div className="flex gap-2 mt-2">
+                <button
+                  onClick={handleRecordToggle}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-xs font-medium transition-colors border border-gray-600 ${recordingState !== 'inactive' ? 'bg-red-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+                  title={recordingState === 'inactive' ? '录制画面和声音' : '停止录制并下载视频'}
+                >
+                  <i className={`fas ${recordingState === 'inactive' ? 'fa-circle text-red-400' : 'fa-stop'}`}></i> {recordingState === 'inactive' ? '录制' : '停止'}
+                </button>
+                {recordingState !== 'inactive' ? (
+                  <button
+                    onClick={handleRecordPause}
+                    className="flex items-center gap-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-md text-xs font-medium transition-colors border border-gray-600"
+                  >
+                    <i className={`fas ${recordingState === 'paused' ? 'fa-play' : 'fa-pause'}`}></i> {recordingState === 'paused' ? '继续' : '暂停'}
+                  </button>
+                ) : (
+                  <label className="flex items-center gap-2 px-2 text-xs text-gray-300 cursor-pointer" title="不录制背景，输出带透明通道的 WebM">
+                    <input type="checkbox" checked={isTransparentRecording} onChange={(e) => setIsTransparentRecording(e.target.checked)} />
+                    透明背景
+                  </label>
+                )}
              </div>
              
              {isBgPanelOpen && (
@@ -175,6 +479,30 @@ export default function App() {
                   onClose={() => setIsBgPanelOpen(false)} 
                />
              )}
+
+             {isPersonaPanelOpen && (
+               <PersonaPanel
+                  personas={personas}
+                  currentId={persona.id}
+                  onSelect={handlePersonaSelect}
+                  onImport={handlePersonaImport}
+                  onClose={() => setIsPersonaPanelOpen(false)}
+               />
+             )}
+
+             {isSessionPanelOpen && (
+               <SessionPanel
+                  sessions={sessions}
+                  current={session}
+                  modelName={persona.name}
+                  onSelect={openSession}
+                  onCreate={() => openSession(createSession(persona.id))}
+                  onRename={handleSessionRename}
+                  onDelete={handleSessionDelete}
+                  onImport={handleSessionImport}
+                  onClose={() => setIsSessionPanelOpen(false)}
+               />
+             )}
           </div>
           
           <div className="pointer-events-auto">
@@ -182,6 +510,7 @@ export default function App() {
                 animations={animations} 
                 morphs={morphs}
                 boneControls={boneControls}
+                report={modelReport}
                 isDebuggingBones={isDebuggingBones}
                 onStartDebug={() => setIsDebuggingBones(true)}
                 onStopDebug={() => setIsDebuggingBones(false)}
@@ -194,7 +523,7 @@ export default function App() {
                 <div className="text-center p-8 bg-gray-900 rounded-2xl border border-gray-700 shadow-2xl max-w-md mx-4">
                     <div className="text-6xl text-blue-500 mb-4"><i className="fas fa-cube"></i></div>
                     <h2 className="text-2xl font-bold mb-2">初始化数字人</h2>
-                    <p className="text-gray-400 mb-6">请上传 .glb 文件开始。为了获得最佳的口型同步效果，请使用包含标准混合形状 (ARKit) 的模型。</p>
+                    <p className="text-gray-400 mb-6">请上传 .glb 或 .vrm 文件开始。为了获得最佳的口型同步效果，请使用包含标准混合形状 (ARKit) 的模型或 VRM 模型。</p>
                     <button onClick={() => fileInputRef.current?.click()} className="bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 px-8 rounded-full transition transform hover:scale-105">
                         选择 GLB 文件
                     </button>
@@ -211,8 +540,8 @@ export default function App() {
                 <div className="flex-1 overflow-y-auto p-4 space-y-3">
                     {messages.map((m) => (
                         <div key={m.id} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                            <div className={`max-w-[85%] px-3 py-2 rounded-lg text-sm shadow-md ${m.role === 'user' ? 'bg-blue-600 text-white rounded-br-none' : 'bg-gray-100 text-gray-800 rounded-bl-none'}`}>
-                                {renderSafeMessage(m.text)}
+                            <div className={`max-w-[85%] px-3 py-2 rounded-lg text-sm shadow-md ${m.role === 'user' ? 'bg-blue-600 text-white rounded-br-none' : 'bg-gray-100 text-gray-800 rounded-bl-none'} ${m.isPartial ? 'opacity-70' : ''}`}>
+                                {m.isPartial && !m.text ? '…' : renderSafeMessage(m.text)}
                             </div>
                         </div>
                     ))}
@@ -225,19 +554,48 @@ export default function App() {
                    <div className="flex items-center gap-2">
                       <div className={`w-2 h-2 rounded-full ${
                           connectionState === ConnectionState.CONNECTED ? 'bg-green-500 animate-pulse' :
-                          connectionState === ConnectionState.CONNECTING ? 'bg-yellow-500 animate-bounce' : 'bg-red-500'}`} />
+                          connectionState === ConnectionState.CONNECTING ? 'bg-yellow-500 animate-bounce' :
+                          connectionState === ConnectionState.RECONNECTING ? 'bg-yellow-500 animate-pulse' : 'bg-red-500'}`} />
                       <span className="text-xs font-mono uppercase text-gray-700">{connectionStateText[connectionState]}</span>
+                      {connectionNote && (
+                          <span className="text-xs text-gray-700 truncate max-w-[16rem]" title={connectionDetails?.error?.detail || connectionNote}>{connectionNote}</span>
+                      )}
+                   </div>
+                   <div className="flex items-center gap-1 ml-4">
+                      {Object.values(InputMode).map(mode => (
+                          <button
+                            key={mode}
+                            onClick={() => setInputMode(mode)}
+                            disabled={isVoiceActive || connectionState === ConnectionState.CONNECTING}
+                            className={`px-2 py-0.5 rounded-full text-[10px] transition-colors disabled:cursor-not-allowed ${inputMode === mode ? 'bg-blue-500 text-white' : 'bg-white/40 text-gray-700 hover:bg-white/70'}`}
+                            title="语音输入模式（下次连接时生效）"
+                          >
+                            {inputModeText[mode]}
+                          </button>
+                      ))}
                    </div>
                 </div>
 
                 <div className="flex gap-2">
-                    <button onClick={handleConnectToggle} className={`w-12 h-12 rounded-full flex items-center justify-center transition-all shadow-md ${connectionState === ConnectionState.CONNECTED ? 'bg-red-100 text-red-600 border border-red-300 hover:bg-red-200' : 'bg-white/50 backdrop-blur-sm text-gray-800 hover:bg-white/80 border border-white/20'}`} title={connectionState === ConnectionState.CONNECTED ? "断开语音" : "开始语音聊天"}>
-                        <i className={`fas ${connectionState === ConnectionState.CONNECTED ? 'fa-phone-slash' : 'fa-microphone'}`}></i>
+                    <button onClick={handleConnectToggle} className={`w-12 h-12 rounded-full flex items-center justify-center transition-all shadow-md ${isVoiceActive ? 'bg-red-100 text-red-600 border border-red-300 hover:bg-red-200' : 'bg-white/50 backdrop-blur-sm text-gray-800 hover:bg-white/80 border border-white/20'}`} title={isVoiceActive ? "断开语音" : "开始语音聊天"}>
+                        <i className={`fas ${isVoiceActive ? 'fa-phone-slash' : 'fa-microphone'}`}></i>
                     </button>
 
+                    {inputMode === InputMode.PUSH_TO_TALK && isVoiceActive && (
+                        <button
+                          onPointerDown={() => handleTalk(true)}
+                          onPointerUp={() => handleTalk(false)}
+                          onPointerLeave={() => handleTalk(false)}
+                          className={`h-12 px-4 rounded-full flex items-center gap-2 text-sm font-medium transition-all shadow-md select-none ${isTalking ? 'bg-green-500 text-white scale-105' : 'bg-white/50 backdrop-blur-sm text-gray-800 hover:bg-white/80 border border-white/20'}`}
+                          title="按住说话（或按住空格键）"
+                        >
+                            <i className="fas fa-microphone-alt"></i> {isTalking ? '说话中' : '按住说话'}
+                        </button>
+                    )}
+
                     <div className="flex-1 relative">
-                        <input type="text" className="w-full h-12 bg-white/50 backdrop-blur-sm border border-white/20 rounded-full pl-5 pr-12 text-gray-900 placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500/50 shadow-md" placeholder="输入消息..." value={inputText} onChange={(e) => setInputText(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleSendText()} disabled={connectionState === ConnectionState.CONNECTED} />
-                        <button onClick={handleSendText} disabled={!inputText.trim() || connectionState === ConnectionState.CONNECTED} className="absolute right-1 top-1 w-10 h-10 rounded-full bg-blue-500 text-white hover:bg-blue-600 transition flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed">
+                        <input type="text" className="w-full h-12 bg-white/50 backdrop-blur-sm border border-white/20 rounded-full pl-5 pr-12 text-gray-900 placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500/50 shadow-md" placeholder="输入消息..." value={inputText} onChange={(e) => setInputText(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleSendText()} disabled={isVoiceActive} />
+                        <button onClick={handleSendText} disabled={!inputText.trim() || isVoiceActive} className="absolute right-1 top-1 w-10 h-10 rounded-full bg-blue-500 text-white hover:bg-blue-600 transition flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed">
                             <i className="fas fa-paper-plane"></i>
                         </button>
                     </div>
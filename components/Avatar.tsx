@@ -1,23 +1,144 @@
 import React, { useEffect, useRef, useMemo, useState } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { useGLTF, useAnimations } from '@react-three/drei';
-import { SkinnedMesh, Bone, MathUtils } from 'three';
-import { AnimationControl, MorphTargetControl, BoneControl } from '../types';
+import { VRM, VRMLoaderPlugin } from '@pixiv/three-vrm';
+import { SkinnedMesh, MathUtils, Camera, Object3D, Quaternion, Vector2, Vector3 } from 'three';
+import type { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { AnimationControl, MorphTargetControl, MorphBlendMode, BoneControl, Expression, FaceTrackingFrame, GazeOptions, GazeTarget, HumanoidBoneName, LookAtTarget, ModelReport, RigOptions, VISEME_NAMES, VisemeWeights } from '../types';
+import { getJawOpen } from '../services/visemeEngine';
+import { EXPRESSION_MORPHS, MORPH_ALIASES, getExpressionWeights } from '../services/expressions';
+import { GazeAngles, GazeController } from '../services/gazeController';
+import { HumanoidRig, detectRig } from '../services/humanoidRig';
+import { inspectModel } from '../services/modelInspector';
+import { createRandom } from '../services/random';
+import { VRM_EXPRESSION_NAMES, faceFrameToVrmWeights, getVrmExpressionWeights, getVrmHumanoidBones, getVrmMouthWeights, prepareVrm } from '../services/vrm';
 
 interface AvatarProps {
   url: string;
-  audioLevel: number; // 0 to 1
-  onControlsReady: (anims: AnimationControl[], morphs: MorphTargetControl[], bones: BoneControl[]) => void;
+  visemes: VisemeWeights;
+  isListening?: boolean; // attentive pose after the user interrupts
+  expression: Required<Expression>;
+  lookAt?: GazeTarget;
+  gaze?: GazeOptions;
+  faceFrame?: FaceTrackingFrame | null; // webcam tracking; replaces procedural face and head animation while set
+  rig?: RigOptions;
+  onControlsReady: (anims: AnimationControl[], morphs: MorphTargetControl[], bones: BoneControl[], report: ModelReport) => void;
+  onHeadReady?: (head: Object3D) => void; // something for other avatars to look at
+  seed?: number; // makes blinking and eye movement repeatable, e.g. for offline rendering
   isDebuggingBones: boolean;
 }
 
-export const Avatar: React.FC<AvatarProps> = ({ url, audioLevel, onControlsReady, isDebuggingBones }) => {
-  const { scene, animations } = useGLTF(url);
+// Head rotation offsets (radians) for each look-at direction
+const LOOK_AT_OFFSETS: Record<LookAtTarget, { x: number, y: number }> = {
+  viewer: { x: 0, y: 0 },
+  left: { x: 0, y: 0.35 },
+  right: { x: 0, y: -0.35 },
+  up: { x: -0.2, y: 0 },
+  down: { x: 0.2, y: 0 },
+};
+// Share of the head's gaze rotation taken by the neck bone
+const NECK_SHARE = 0.4;
+// Eye rotation at which the eyeLook* blendshapes reach full weight
+const EYE_LOOK_RANGE = MathUtils.degToRad(30);
+
+
+// Arm pose in degrees away from the T-pose: lower drops the arm to the side, forward swings it to
+// the front, twist rolls it about its own length and bend flexes the elbow
+interface ArmPose {
+  lower: number;
+  forward: number;
+  twist: number;
+  bend: number;
+}
+const IDLE_ARM_POSE: ArmPose = { lower: 70, forward: 10, twist: 0, bend: 15 };
+
+const X_AXIS = new Vector3(1, 0, 0);
+const Z_AXIS = new Vector3(0, 0, 1);
+const tempTarget = new Vector3();
+const tempHead = new Vector3();
+const tempQuaternion = new Quaternion();
+const armQuaternion = new Quaternion();
+
+/**
+ * Poses one arm; the same pose mirrors onto the other side.
+ */
+function poseArm(rig: HumanoidRig, side: 'left' | 'right', pose: ArmPose, alpha: number) {
+  const rad = MathUtils.degToRad;
+  const sign = side === 'left' ? 1 : -1;
+  // Twist first, then lower, then swing forward
+  armQuaternion.setFromAxisAngle(X_AXIS, rad(pose.twist) * sign)
+    .premultiply(tempQuaternion.setFromAxisAngle(Z_AXIS, -rad(pose.lower) * sign))
+    .premultiply(tempQuaternion.setFromAxisAngle(X_AXIS, -rad(pose.forward)));
+  rig.setQuaternion(`${side}Arm`, armQuaternion, alpha);
+  rig.setRotation(`${side}ForeArm`, 0, -rad(pose.bend) * sign, 0, alpha);
+}
+
+/**
+ * Yaw/pitch from the avatar's head to the gaze target, in the avatar's own frame.
+ */
+function getGazeAngles(target: GazeTarget, avatar: Object3D, head: Object3D | null, camera: Camera, pointer: Vector2): GazeAngles {
+  if (typeof target === 'string' && target !== 'viewer' && target !== 'pointer') {
+    const offset = LOOK_AT_OFFSETS[target];
+    return { yaw: offset.y, pitch: offset.x };
+  }
+  (head || avatar).getWorldPosition(tempHead);
+  if (target === 'viewer') {
+    camera.getWorldPosition(tempTarget);
+  } else if (target === 'pointer') {
+    // Project the pointer onto the plane the head is in, as seen from the camera
+    camera.getWorldPosition(tempTarget);
+    const distance = tempTarget.distanceTo(tempHead);
+    const direction = new Vector3(pointer.x, pointer.y, 0.5).unproject(camera).sub(tempTarget).normalize();
+    tempTarget.addScaledVector(direction, distance);
+  } else if (target instanceof Object3D) {
+    target.getWorldPosition(tempTarget);
+  } else {
+    tempTarget.set(target[0], target[1], target[2]);
+  }
+  avatar.worldToLocal(tempTarget);
+  avatar.worldToLocal(tempHead);
+  const d = tempTarget.sub(tempHead);
+  return { yaw: Math.atan2(d.x, d.z), pitch: Math.atan2(-d.y, Math.hypot(d.x, d.z)) };
+}
+
+export const Avatar: React.FC<AvatarProps> = ({ url, visemes, isListening = false, expression, lookAt = 'viewer', gaze, faceFrame, rig: rigOptions, onControlsReady, onHeadReady, seed, isDebuggingBones }) => {
+  // The VRM plugin only acts on VRM files; plain glTF loads as before. drei's loader comes from
+  // three-stdlib, whose GLTF types differ from the three.js ones the plugin is typed against; the
+  // plugin API is the same, so the loader is viewed as the three.js GLTFLoader once
+  const { scene, animations, userData } = useGLTF(url, undefined, undefined, loader => {
+    (loader as unknown as GLTFLoader).register(parser => new VRMLoaderPlugin(parser));
+  });
+  const vrm = userData.vrm as VRM | undefined;
   const group = useRef<any>(null);
   const { actions, names } = useAnimations(animations, group);
   
-  const [blinkState, setBlinkState] = useState({ isBlinking: false, nextBlink: 2000 });
+  // Blink timing and saccades draw from one generator for the avatar's lifetime
+  const [random] = useState(() => seed === undefined ? Math.random : createRandom(seed));
+  // Kept out of React state so a blink starts on the very frame it is due
+  const blinkTimer = useRef({ isBlinking: false, nextBlink: 2000 });
   const smoothAudio = useRef(0);
+  const talkMotion = useRef(0);
+  const listenMotion = useRef(0);
+  // Blend from the previous expression's weights to the new one; startTime is set on the next frame
+  const expressionState = useRef({
+    from: {} as Record<string, number>,
+    to: getExpressionWeights(expression),
+    current: {} as Record<string, number>,
+    // The same blend over VRM expression presets
+    vrmFrom: {} as Record<string, number>,
+    vrmTo: getVrmExpressionWeights(expression),
+    vrmCurrent: {} as Record<string, number>,
+    startTime: null as number | null,
+    durationMs: 0,
+  });
+  // Manual morph values from the control panel, keyed by morph index, layered over procedural animation
+  const morphOverrides = useRef(new Map<number, { value: number, mode: MorphBlendMode }>());
+  // Procedural values of overridden morphs, restored each frame so procedural smoothing doesn't drift
+  const proceduralMorphs = useRef(new Map<number, number>());
+  // Manual VRM expression values from the control panel, keyed by expression name
+  const vrmOverrides = useRef(new Map<string, { value: number, mode: MorphBlendMode }>());
+  const gazeController = useRef<GazeController>(null!);
+  if (!gazeController.current) gazeController.current = new GazeController(random);
 
   const headMesh = useMemo(() => {
     let targetMesh: SkinnedMesh | null = null;
@@ -36,51 +157,27 @@ export const Avatar: React.FC<AvatarProps> = ({ url, audioLevel, onControlsReady
     return targetMesh;
   }, [scene]);
 
-  const bones = useMemo(() => {
-    const b: Record<string, Bone | null> = {
-        neck: null, head: null, spine: null, hips: null,
-        leftArm: null, leftForeArm: null, leftHand: null, leftShoulder: null,
-        rightArm: null, rightForeArm: null, rightHand: null, rightShoulder: null
-    };
-    scene.traverse((node: any) => {
-        if (!node.isBone) return;
-        const name = node.name.toLowerCase();
-        const is = (n: string) => name.includes(n);
-
-        if (is('head')) b.head = node;
-        else if (is('neck')) b.neck = node;
-        else if (is('spine2') || (is('spine') && !b.spine)) b.spine = node;
-        else if (is('hips')) b.hips = node;
-        else if (is('left') && is('shoulder')) b.leftShoulder = node;
-        else if (is('left') && is('forearm')) b.leftForeArm = node;
-        else if (is('left') && is('hand')) b.leftHand = node;
-        else if (is('left') && is('arm')) b.leftArm = node;
-        else if (is('right') && is('shoulder')) b.rightShoulder = node;
-        else if (is('right') && is('forearm')) b.rightForeArm = node;
-        else if (is('right') && is('hand')) b.rightHand = node;
-        else if (is('right') && is('arm')) b.rightArm = node;
-    });
-    return b;
-  }, [scene]);
+  // Models without the Oculus/ReadyPlayerMe viseme set fall back to a single jaw-open morph
+  const hasVisemes = useMemo(() => {
+    const dict = (headMesh as SkinnedMesh | null)?.morphTargetDictionary;
+    return !!dict && VISEME_NAMES.some(name => dict[name] !== undefined);
+  }, [headMesh]);
+
+  const rigKey = JSON.stringify(rigOptions ?? {});
+  const rig = useMemo(() => {
+    if (vrm) prepareVrm(vrm);
+    return new HumanoidRig(scene, detectRig(scene, rigOptions, vrm && { profile: 'vrm', bones: getVrmHumanoidBones(vrm) }));
+  }, [scene, vrm, rigKey]);
 
   useEffect(() => {
     // --- Set Initial Relaxed Pose to prevent T-Pose flash ---
-    if (bones.leftArm) {
-      bones.leftArm.rotation.x = MathUtils.degToRad(61);
-      bones.leftArm.rotation.y = MathUtils.degToRad(-20);
-      bones.leftArm.rotation.z = MathUtils.degToRad(-8);
-    }
-    if (bones.leftForeArm) {
-      bones.leftForeArm.rotation.z = MathUtils.degToRad(15);
-    }
-    if (bones.rightArm) {
-      bones.rightArm.rotation.x = MathUtils.degToRad(61);
-      bones.rightArm.rotation.y = MathUtils.degToRad(20);
-      bones.rightArm.rotation.z = MathUtils.degToRad(14);
-    }
-    if (bones.rightForeArm) {
-      bones.rightForeArm.rotation.z = MathUtils.degToRad(-15);
-    }
+    // The scene is cached, so start from the rest pose rather than wherever a previous mount left it
+    rig.resetPose();
+    headMesh?.morphTargetInfluences?.fill(0);
+    poseArm(rig, 'left', IDLE_ARM_POSE, 1);
+    poseArm(rig, 'right', IDLE_ARM_POSE, 1);
+    vrm?.humanoid.update();
+    vrm?.springBoneManager?.reset();
     // --- End Initial Pose Setup ---
 
     const animControls = names.map(name => ({
@@ -95,88 +192,276 @@ export const Avatar: React.FC<AvatarProps> = ({ url, audioLevel, onControlsReady
     }));
 
     const morphControls: MorphTargetControl[] = [];
-    if (headMesh && headMesh.morphTargetDictionary) {
+    if (vrm?.expressionManager) {
+      // VRM faces are driven through their expression presets, which own the underlying morphs
+      const manager = vrm.expressionManager;
+      manager.expressions.forEach((vrmExpression, idx) => {
+        const name = vrmExpression.expressionName;
+        morphControls.push({
+          name,
+          index: idx,
+          value: 0,
+          setValue: (value, mode = 'override') => {
+            vrmOverrides.current.set(name, { value: MathUtils.clamp(value, 0, 1), mode });
+          },
+          reset: () => {
+            vrmOverrides.current.delete(name);
+            manager.setValue(name, 0);
+          },
+        });
+      });
+    } else if (headMesh && headMesh.morphTargetDictionary) {
       Object.entries(headMesh.morphTargetDictionary).forEach(([name, index]) => {
-        morphControls.push({ name, index: index as number, value: 0 });
+        const idx = index as number;
+        morphControls.push({
+          name,
+          index: idx,
+          value: 0,
+          setValue: (value, mode = 'override') => {
+            morphOverrides.current.set(idx, { value: MathUtils.clamp(value, 0, 1), mode });
+          },
+          reset: () => {
+            morphOverrides.current.delete(idx);
+            const procedural = proceduralMorphs.current.get(idx);
+            if (procedural !== undefined && headMesh.morphTargetInfluences) {
+              headMesh.morphTargetInfluences[idx] = procedural;
+            }
+            proceduralMorphs.current.delete(idx);
+          },
+        });
       });
     }
 
-    const relevantBones = ['leftArm', 'leftForeArm', 'rightArm', 'rightForeArm', 'spine', 'head'];
-    const boneControls: BoneControl[] = Object.entries(bones)
-      .filter(([name, bone]) => bone && relevantBones.includes(name))
-      .map(([name, bone]) => ({
-        name,
-        setRotation: (axis, valueInDegrees) => {
-          if (bone) {
-            (bone as Bone).rotation[axis] = MathUtils.degToRad(valueInDegrees);
-          }
-        },
-      }));
-
-    onControlsReady(animControls, morphControls, boneControls);
+    // Sliders rotate away from the rest pose about the character's axes, like the procedural animation
+    const relevantBones: HumanoidBoneName[] = ['leftArm', 'leftForeArm', 'rightArm', 'rightForeArm', 'spine', 'head'];
+    const boneControls: BoneControl[] = relevantBones
+      .filter(name => rig.get(name))
+      .map(name => {
+        const rotation = { x: 0, y: 0, z: 0 };
+        return {
+          name,
+          setRotation: (axis, valueInDegrees) => {
+            rotation[axis] = MathUtils.degToRad(valueInDegrees);
+            rig.setRotation(name, rotation.x, rotation.y, rotation.z);
+          },
+        };
+      });
+
+    onControlsReady(animControls, morphControls, boneControls, inspectModel({ scene, animations, headMesh, rig, vrm }));
     
     const idleAnim = names.find(n => /idle|stand|wait/i.test(n));
     if (idleAnim) { actions[idleAnim]?.reset().fadeIn(0.5).play(); }
     
-  }, [actions, names, headMesh, onControlsReady, bones]);
+  }, [actions, names, scene, animations, headMesh, vrm, onControlsReady, rig]);
+
+  useEffect(() => {
+    onHeadReady?.(rig.get('head') || scene);
+  }, [rig, scene, onHeadReady]);
+
+  useEffect(() => {
+    const state = expressionState.current;
+    expressionState.current = {
+      from: { ...state.current },
+      to: getExpressionWeights(expression),
+      current: state.current,
+      vrmFrom: { ...state.vrmCurrent },
+      vrmTo: getVrmExpressionWeights(expression),
+      vrmCurrent: state.vrmCurrent,
+      startTime: null,
+      durationMs: expression.transitionMs,
+    };
+  }, [expression.name, expression.intensity, expression.transitionMs]);
+
+  useEffect(() => {
+    gazeController.current.setOptions(gaze);
+  }, [gaze]);
 
   useFrame((state, delta) => {
     const t = state.clock.elapsedTime;
-    smoothAudio.current = MathUtils.lerp(smoothAudio.current, audioLevel, 0.2);
+    const gazePose = gazeController.current.update(
+      group.current ? getGazeAngles(lookAt, group.current, rig.get('head'), state.camera, state.pointer) : { yaw: 0, pitch: 0 },
+      Math.min(delta, 0.1)
+    );
+    if (faceFrame) {
+        // The tracked face looks wherever the user looks
+        const b = faceFrame.blendshapes;
+        gazePose.head = { yaw: faceFrame.headRotation.yaw, pitch: faceFrame.headRotation.pitch };
+        gazePose.eyes = {
+            yaw: (((b.eyeLookOutLeft ?? 0) - (b.eyeLookInLeft ?? 0)) + ((b.eyeLookInRight ?? 0) - (b.eyeLookOutRight ?? 0))) / 2 * EYE_LOOK_RANGE,
+            pitch: (((b.eyeLookDownLeft ?? 0) - (b.eyeLookUpLeft ?? 0)) + ((b.eyeLookDownRight ?? 0) - (b.eyeLookUpRight ?? 0))) / 2 * EYE_LOOK_RANGE,
+        };
+    }
+    const jawOpen = getJawOpen(visemes);
+    smoothAudio.current = MathUtils.lerp(smoothAudio.current, 1 - visemes.viseme_sil, 0.2);
     const intensity = smoothAudio.current;
     const isTalking = intensity > 0.05;
 
-    if (headMesh?.morphTargetDictionary && headMesh.morphTargetInfluences) {
-        // --- Lip Sync ---
-        const mouthTargets = ['viseme_aa', 'jawOpen', 'mouthOpen', 'mouth_open'];
-        const targetIndex = mouthTargets.map(name => headMesh.morphTargetDictionary![name]).find(i => i !== undefined);
-        if (targetIndex !== undefined) {
-            headMesh.morphTargetInfluences[targetIndex] = MathUtils.lerp(headMesh.morphTargetInfluences[targetIndex], intensity * 1.2, 0.4);
+    const expr = expressionState.current;
+    if (expr.startTime === null) expr.startTime = t;
+    const progress = expr.durationMs > 0 ? MathUtils.clamp(((t - expr.startTime) * 1000) / expr.durationMs, 0, 1) : 1;
+    const eased = progress * progress * (3 - 2 * progress);
+
+    const blinkState = blinkTimer.current;
+    if (!blinkState.isBlinking && t * 1000 > blinkState.nextBlink) {
+        blinkState.isBlinking = true;
+    }
+    let blink = 0;
+    const isBlinking = blinkState.isBlinking;
+    if (isBlinking) {
+        const blinkDuration = 150;
+        const progress = (t * 1000 - blinkState.nextBlink) / blinkDuration;
+        blink = progress < 0.5 ? progress * 2 : (progress < 1.0 ? 2 - progress * 2 : 0);
+        if (progress >= 1.0) {
+          blinkTimer.current = { isBlinking: false, nextBlink: t * 1000 + 2000 + random() * 4000 };
         }
+    }
 
-        // --- Default Smile Expression ---
-        const smileTargets = ['mouthSmile', 'mouthSmileLeft', 'mouthSmileRight', 'smile'];
-        smileTargets.forEach(name => {
-            const idx = headMesh.morphTargetDictionary![name];
-            if (idx !== undefined) {
-                headMesh.morphTargetInfluences![idx] = MathUtils.lerp(headMesh.morphTargetInfluences![idx], 0.4, 0.1);
-            }
+    if (headMesh?.morphTargetDictionary && headMesh.morphTargetInfluences) {
+        // Undo last frame's manual overlay so procedural animation continues from its own values
+        proceduralMorphs.current.forEach((value, idx) => {
+            headMesh.morphTargetInfluences![idx] = value;
         });
 
-        // --- Blinking ---
-        if (!blinkState.isBlinking && t * 1000 > blinkState.nextBlink) {
-            setBlinkState(prev => ({ ...prev, isBlinking: true }));
-        }
-        if (blinkState.isBlinking) {
-            const blinkDuration = 150;
-            const progress = (t * 1000 - blinkState.nextBlink) / blinkDuration;
-            let value = progress < 0.5 ? progress * 2 : (progress < 1.0 ? 2 - progress * 2 : 0);
-            if (progress >= 1.0) {
-              setBlinkState({ isBlinking: false, nextBlink: t * 1000 + 2000 + Math.random() * 4000 });
+        // --- Expression Layer ---
+        // Sets the base face; lip sync, blinking and talking motion are layered on top
+        const expressionWeights: Record<string, number> = {};
+        EXPRESSION_MORPHS.forEach(morph => {
+            const weight = MathUtils.lerp(expr.from[morph] ?? 0, expr.to[morph] ?? 0, eased);
+            expressionWeights[morph] = weight;
+            const idx = [morph, ...(MORPH_ALIASES[morph] || [])]
+                .map(name => headMesh.morphTargetDictionary![name])
+                .find(i => i !== undefined);
+            if (idx !== undefined) headMesh.morphTargetInfluences![idx] = weight;
+        });
+        expr.current = expressionWeights;
+
+        // --- Lip Sync ---
+        if (hasVisemes) {
+            VISEME_NAMES.forEach(name => {
+                const idx = headMesh.morphTargetDictionary![name];
+                if (idx !== undefined) {
+                    headMesh.morphTargetInfluences![idx] = MathUtils.lerp(headMesh.morphTargetInfluences![idx], visemes[name], 0.5);
+                }
+            });
+        } else {
+            const mouthTargets = ['jawOpen', 'mouthOpen', 'mouth_open'];
+            const targetIndex = mouthTargets.map(name => headMesh.morphTargetDictionary![name]).find(i => i !== undefined);
+            if (targetIndex !== undefined) {
+                headMesh.morphTargetInfluences[targetIndex] = MathUtils.lerp(headMesh.morphTargetInfluences[targetIndex], jawOpen * 1.2, 0.4);
+            }
+            // ARKit rigs can still round the lips for O/U sounds
+            const funnelIdx = headMesh.morphTargetDictionary['mouthFunnel'];
+            if (funnelIdx !== undefined) {
+                headMesh.morphTargetInfluences[funnelIdx] = MathUtils.lerp(headMesh.morphTargetInfluences[funnelIdx], visemes.viseme_O * 0.6 + visemes.viseme_U * 0.3, 0.4);
+            }
+            const puckerIdx = headMesh.morphTargetDictionary['mouthPucker'];
+            if (puckerIdx !== undefined) {
+                headMesh.morphTargetInfluences[puckerIdx] = MathUtils.lerp(headMesh.morphTargetInfluences[puckerIdx], visemes.viseme_U * 0.8, 0.4);
             }
+        }
+
+        // --- Blinking ---
+        if (isBlinking) {
             ['eyeBlinkLeft', 'eyeBlinkRight', 'eyesClosed', 'blink'].forEach(name => {
                 const idx = headMesh.morphTargetDictionary![name];
-                if (idx !== undefined) headMesh.morphTargetInfluences![idx] = value;
+                // Never open the lids wider than the expression holds them (e.g. sad, droopy lids)
+                if (idx !== undefined) headMesh.morphTargetInfluences![idx] = Math.max(expressionWeights[name] ?? 0, blink);
             });
         }
         
-        // --- Dynamic Expressions while Talking ---
-        const expressionTargets = {
-            browInnerUp: Math.sin(t * 1.5) * 0.1 + 0.1,
-            cheekSquintLeft: Math.sin(t * 2.1) * 0.1 + 0.1,
-            cheekSquintRight: Math.sin(t * 2.3) * 0.1 + 0.1,
+        // --- Eye Gaze ---
+        // Added to the expression's own eye direction (e.g. glancing up while thinking)
+        const { yaw: eyeYaw, pitch: eyePitch } = gazePose.eyes;
+        const eyeLook = (value: number) => MathUtils.clamp(value / EYE_LOOK_RANGE, 0, 1);
+        const gazeWeights: Record<string, number> = {
+            eyeLookOutLeft: eyeLook(eyeYaw), eyeLookInRight: eyeLook(eyeYaw),
+            eyeLookInLeft: eyeLook(-eyeYaw), eyeLookOutRight: eyeLook(-eyeYaw),
+            eyeLookDownLeft: eyeLook(eyePitch), eyeLookDownRight: eyeLook(eyePitch),
+            eyeLookUpLeft: eyeLook(-eyePitch), eyeLookUpRight: eyeLook(-eyePitch),
+        };
+        Object.entries(gazeWeights).forEach(([name, weight]) => {
+            const idx = headMesh.morphTargetDictionary![name];
+            if (idx !== undefined) {
+                headMesh.morphTargetInfluences![idx] = Math.min(1, (expressionWeights[name] ?? 0) + weight);
+            }
+        });
+
+        // --- Dynamic Expressions while Talking / Listening ---
+        talkMotion.current = MathUtils.lerp(talkMotion.current, isTalking ? 1 : 0, 0.1);
+        listenMotion.current = MathUtils.lerp(listenMotion.current, isListening && !isTalking ? 1 : 0, 0.1);
+        const expressionOffsets = {
+            browInnerUp: talkMotion.current * (Math.sin(t * 1.5) * 0.1 + 0.1) + listenMotion.current * 0.25,
+            cheekSquintLeft: talkMotion.current * (Math.sin(t * 2.1) * 0.1 + 0.1),
+            cheekSquintRight: talkMotion.current * (Math.sin(t * 2.3) * 0.1 + 0.1),
         };
 
-        Object.entries(expressionTargets).forEach(([name, targetValue]) => {
+        Object.entries(expressionOffsets).forEach(([name, offset]) => {
             const idx = headMesh.morphTargetDictionary![name];
             if (idx !== undefined) {
-                const currentValue = headMesh.morphTargetInfluences![idx];
-                const finalValue = isTalking ? targetValue : 0;
-                headMesh.morphTargetInfluences![idx] = MathUtils.lerp(currentValue, finalValue, 0.1);
+                headMesh.morphTargetInfluences![idx] = Math.min(1, (expressionWeights[name] ?? 0) + offset);
+            }
+        });
+
+        // --- Face Tracking ---
+        // Replaces every procedural layer above; the mouth follows the user, not the AI's audio
+        if (faceFrame) {
+            if (hasVisemes) {
+                VISEME_NAMES.forEach(name => {
+                    const idx = headMesh.morphTargetDictionary![name];
+                    if (idx !== undefined) headMesh.morphTargetInfluences![idx] = 0;
+                });
             }
+            Object.entries(faceFrame.blendshapes).forEach(([name, weight]) => {
+                const idx = [name, ...(MORPH_ALIASES[name] || [])]
+                    .map(n => headMesh.morphTargetDictionary![n])
+                    .find(i => i !== undefined);
+                if (idx !== undefined) {
+                    headMesh.morphTargetInfluences![idx] = MathUtils.lerp(headMesh.morphTargetInfluences![idx], weight, 0.5);
+                }
+            });
+        }
+
+        // --- Manual Overrides ---
+        // Applied last so they always win (override) or sit on top (additive) of the procedural layers
+        morphOverrides.current.forEach(({ value, mode }, idx) => {
+            const procedural = headMesh.morphTargetInfluences![idx];
+            proceduralMorphs.current.set(idx, procedural);
+            headMesh.morphTargetInfluences![idx] = mode === 'additive' ? Math.min(1, procedural + value) : value;
         });
     }
 
+    // --- VRM Expressions ---
+    // The same layers as above, expressed in VRM presets; vrm.update() turns them into morphs
+    if (vrm?.expressionManager) {
+        const vrmWeights: Record<string, number> = {};
+        VRM_EXPRESSION_NAMES.forEach(name => {
+            vrmWeights[name] = MathUtils.lerp(expr.vrmFrom[name] ?? 0, expr.vrmTo[name] ?? 0, eased);
+        });
+        expr.vrmCurrent = { ...vrmWeights };
+        Object.assign(vrmWeights, getVrmMouthWeights(visemes));
+        vrmWeights.blink = blink;
+        if (faceFrame) {
+            Object.keys(vrmWeights).forEach(name => { vrmWeights[name] = 0; });
+            Object.assign(vrmWeights, faceFrameToVrmWeights(faceFrame.blendshapes));
+        }
+        vrmOverrides.current.forEach(({ value, mode }, name) => {
+            vrmWeights[name] = mode === 'additive' ? Math.min(1, (vrmWeights[name] ?? 0) + value) : value;
+        });
+        Object.entries(vrmWeights).forEach(([name, weight]) => vrm.expressionManager!.setValue(name, weight));
+    }
+
+    // Eye bones rotate in the head's frame, on top of their rest pose. VRMs aim their eyes
+    // themselves, with bones or expressions depending on the model
+    if (!isDebuggingBones) {
+        if (vrm?.lookAt) {
+            vrm.lookAt.yaw = MathUtils.radToDeg(gazePose.eyes.yaw);
+            vrm.lookAt.pitch = MathUtils.radToDeg(gazePose.eyes.pitch);
+        } else {
+            rig.setRotation('leftEye', gazePose.eyes.pitch, gazePose.eyes.yaw, 0);
+            rig.setRotation('rightEye', gazePose.eyes.pitch, gazePose.eyes.yaw, 0);
+        }
+    }
+
     const isAnyAnimPlaying = names.some(n => actions[n]?.isRunning() && actions[n]!.getEffectiveWeight() > 0.1);
 
     if (!isAnyAnimPlaying && !isDebuggingBones) {
@@ -184,50 +469,42 @@ export const Avatar: React.FC<AvatarProps> = ({ url, audioLevel, onControlsReady
         
         // --- Shared Idle/Breathing Motion ---
         const breath = Math.sin(t * 1.5) * 0.01;
-        if (bones.spine) {
-             bones.spine.rotation.x = MathUtils.lerp(bones.spine.rotation.x, breath, LERP_SPEED);
-        }
-        if (bones.head) {
-             bones.head.rotation.x = MathUtils.lerp(bones.head.rotation.x, breath * 2, LERP_SPEED);
-             bones.head.rotation.y = MathUtils.lerp(bones.head.rotation.y, Math.sin(t * 0.5) * 0.05, LERP_SPEED);
-        }
+        rig.setRotation('spine', breath, 0, 0, LERP_SPEED);
+        // --- Head Gaze, split between neck and head ---
+        const headGaze = gazePose.head;
+        const neckShare = rig.get('neck') ? NECK_SHARE : 0;
+        rig.setRotation('neck', headGaze.pitch * neckShare, headGaze.yaw * neckShare, 0, LERP_SPEED);
+        const sway = faceFrame ? 0 : Math.sin(t * 0.5) * 0.05;
+        // Listening: tilt the head slightly towards the speaker
+        const roll = faceFrame ? faceFrame.headRotation.roll : (isListening && !isTalking ? 0.08 : 0);
+        rig.setRotation('head', breath * 2 + headGaze.pitch * (1 - neckShare), sway + headGaze.yaw * (1 - neckShare), roll, LERP_SPEED);
 
         // --- Talking vs. Idle Hand Gestures ---
-        let lArm = { x: 61, y: -20, z: -8 };
-        let lForeArm = { z: 15 };
-        let rArm = { x: 61, y: 20, z: 14 };
-        let rForeArm = { z: -15 };
+        let leftArm = IDLE_ARM_POSE;
+        let rightArm = IDLE_ARM_POSE;
 
         if (isTalking) {
             const gestureTime = t * 1.2;
-            rArm.x = 40 + Math.sin(gestureTime) * 10;
-            rArm.y = 25 + Math.cos(gestureTime * 0.8) * 5;
-            rArm.z = -10 + Math.sin(gestureTime) * 15;
-            rForeArm.z = -40 + Math.cos(gestureTime * 1.2) * 20;
-
-            lArm.x = 50 + Math.sin(gestureTime * 0.7) * 5;
-            lArm.z = -5 + Math.cos(gestureTime * 0.9) * 5;
-            lForeArm.z = 20;
+            rightArm = {
+                lower: 45 + Math.sin(gestureTime) * 10,
+                forward: 25 + Math.cos(gestureTime * 0.8) * 5,
+                twist: Math.sin(gestureTime) * 15,
+                bend: 40 - Math.cos(gestureTime * 1.2) * 20,
+            };
+            leftArm = {
+                lower: 55 + Math.sin(gestureTime * 0.7) * 5,
+                forward: 10,
+                twist: Math.cos(gestureTime * 0.9) * 5,
+                bend: 20,
+            };
         }
 
-        if (bones.leftArm) {
-          bones.leftArm.rotation.x = MathUtils.lerp(bones.leftArm.rotation.x, MathUtils.degToRad(lArm.x), LERP_SPEED);
-          bones.leftArm.rotation.y = MathUtils.lerp(bones.leftArm.rotation.y, MathUtils.degToRad(lArm.y), LERP_SPEED);
-          bones.leftArm.rotation.z = MathUtils.lerp(bones.leftArm.rotation.z, MathUtils.degToRad(lArm.z), LERP_SPEED);
-        }
-        if (bones.leftForeArm) {
-            bones.leftForeArm.rotation.z = MathUtils.lerp(bones.leftForeArm.rotation.z, MathUtils.degToRad(lForeArm.z), LERP_SPEED);
-        }
-        
-        if (bones.rightArm) {
-          bones.rightArm.rotation.x = MathUtils.lerp(bones.rightArm.rotation.x, MathUtils.degToRad(rArm.x), LERP_SPEED);
-          bones.rightArm.rotation.y = MathUtils.lerp(bones.rightArm.rotation.y, MathUtils.degToRad(rArm.y), LERP_SPEED);
-          bones.rightArm.rotation.z = MathUtils.lerp(bones.rightArm.rotation.z, MathUtils.degToRad(rArm.z), LERP_SPEED);
-        }
-        if (bones.rightForeArm) {
-            bones.rightForeArm.rotation.z = MathUtils.lerp(bones.rightForeArm.rotation.z, MathUtils.degToRad(rForeArm.z), LERP_SPEED);
-        }
+        poseArm(rig, 'left', leftArm, LERP_SPEED);
+        poseArm(rig, 'right', rightArm, LERP_SPEED);
     }
+
+    // Copies the pose onto the real skeleton, applies expressions and gaze, and steps spring bones
+    vrm?.update(Math.min(delta, 0.1));
   });
 
   return (
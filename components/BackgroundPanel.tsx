@@ -1,5 +1,23 @@
 import React, { useRef } from 'react';
 import { Background } from '../types';
+import { BACKGROUND_PRESETS } from '../services/backgroundPresets';
+
+// The presets in BACKGROUND_PRESETS, grouped as the panel shows them
+const PRESET_GROUPS = [
+  { label: '渐变色', presets: ['mint', 'sunset', 'dreamy'] },
+  { label: '大自然', presets: ['forest', 'park', 'city'] },
+  { label: '科幻未来', presets: ['studio', 'night', 'space'] },
+  { label: '纯色', presets: ['yellow', 'purple', 'black'] },
+];
+
+// Environment presets have no swatch to show, so they get an icon
+const PRESET_ICONS: Record<string, string> = {
+  forest: 'fa-tree',
+  park: 'fa-sun',
+  city: 'fa-cloud-sun',
+  studio: 'fa-microchip',
+  night: 'fa-moon',
+};
 
 interface BackgroundPanelProps {
   onBackgroundChange: (background: Background) => void;
@@ -46,57 +64,26 @@ export const BackgroundPanel: React.FC<BackgroundPanelProps> = ({ onBackgroundCh
       
       <div className="overflow-y-auto p-4 space-y-5 custom-scrollbar">
           
-          {/* Gradients */}
-          <div>
-            <span className="text-xs font-semibold text-gray-500 mb-2 block uppercase">渐变色</span>
-            <div className="grid grid-cols-3 gap-2">
-                <PresetButton 
-                    gradient="linear-gradient(120deg, #84fab0 0%, #8fd3f4 100%)" 
-                    label="清新薄荷" 
-                    onClick={() => onBackgroundChange({ type: 'gradient', value: 'linear-gradient(120deg, #84fab0 0%, #8fd3f4 100%)' })} 
-                />
-                <PresetButton 
-                    gradient="linear-gradient(120deg, #fccb90 0%, #d57eeb 100%)" 
-                    label="温暖夕阳" 
-                    onClick={() => onBackgroundChange({ type: 'gradient', value: 'linear-gradient(120deg, #fccb90 0%, #d57eeb 100%)' })} 
-                />
-                <PresetButton 
-                    gradient="linear-gradient(120deg, #e0c3fc 0%, #8ec5fc 100%)" 
-                    label="梦幻紫蓝" 
-                    onClick={() => onBackgroundChange({ type: 'gradient', value: 'linear-gradient(120deg, #e0c3fc 0%, #8ec5fc 100%)' })} 
-                />
-            </div>
-          </div>
-
-          {/* Nature */}
-          <div>
-            <span className="text-xs font-semibold text-gray-500 mb-2 block uppercase">大自然</span>
-            <div className="grid grid-cols-3 gap-2">
-                <PresetButton icon="fa-tree" label="森林" onClick={() => onBackgroundChange({ type: 'hdri', value: 'forest' })} />
-                <PresetButton icon="fa-sun" label="公园" onClick={() => onBackgroundChange({ type: 'hdri', value: 'park' })} />
-                <PresetButton icon="fa-cloud-sun" label="户外" onClick={() => onBackgroundChange({ type: 'hdri', value: 'city' })} />
+          {PRESET_GROUPS.map(group => (
+            <div key={group.label}>
+              <span className="text-xs font-semibold text-gray-500 mb-2 block uppercase">{group.label}</span>
+              <div className="grid grid-cols-3 gap-2">
+                  {group.presets.map(name => {
+                    const { label, background } = BACKGROUND_PRESETS[name];
+                    return (
+                      <PresetButton
+                          key={name}
+                          icon={PRESET_ICONS[name]}
+                          gradient={background.type === 'gradient' ? background.value : undefined}
+                          color={background.type === 'color' ? background.value : undefined}
+                          label={label}
+                          onClick={() => onBackgroundChange(background)}
+                      />
+                    );
+                  })}
+              </div>
             </div>
-          </div>
-
-          {/* Sci-Fi */}
-          <div>
-            <span className="text-xs font-semibold text-gray-500 mb-2 block uppercase">科幻未来</span>
-            <div className="grid grid-cols-3 gap-2">
-                <PresetButton icon="fa-microchip" label="实验室" onClick={() => onBackgroundChange({ type: 'hdri', value: 'studio' })} />
-                <PresetButton icon="fa-moon" label="赛博夜" onClick={() => onBackgroundChange({ type: 'hdri', value: 'night' })} />
-                <PresetButton color="#050510" label="深空" onClick={() => onBackgroundChange({ type: 'color', value: '#050510' })} />
-            </div>
-          </div>
-
-          {/* Comic/Pop */}
-          <div>
-            <span className="text-xs font-semibold text-gray-500 mb-2 block uppercase">纯色</span>
-            <div className="grid grid-cols-3 gap-2">
-                <PresetButton color="#F2C94C" label="活力黄" onClick={() => onBackgroundChange({ type: 'color', value: '#F2C94C' })} />
-                <PresetButton color="#9B51E0" label="电光紫" onClick={() => onBackgroundChange({ type: 'color', value: '#9B51E0' })} />
-                <PresetButton color="#111" label="纯黑" onClick={() => onBackgroundChange({ type: 'color', value: '#111111' })} />
-            </div>
-          </div>
+          ))}
 
           {/* Custom */}
           <div>
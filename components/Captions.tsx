@@ -0,0 +1,126 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { UtteranceEvent, WordTiming } from '../types';
+import { getSpokenLength, splitCaptionLines } from '../services/captions';
+
+export interface Caption {
+  text: string;
+  speaker?: string; // shown before the text when several avatars take turns
+  translation?: string;
+  elapsedMs: number;
+  durationMs: number;
+  words?: WordTiming[];
+}
+
+export interface CaptionStyle {
+  mode?: 'single' | 'bilingual'; // bilingual adds the utterance's translation as a second line
+  position?: 'top' | 'bottom';
+  maxChars?: number; // longer text is paged line by line as it is spoken
+  fontSize?: number | string;
+  color?: string; // text not spoken yet
+  spokenColor?: string;
+  translationColor?: string;
+  background?: string;
+  className?: string;
+}
+
+// How long the last caption stays up after its utterance ended
+const CAPTION_HOLD_MS = 800;
+
+/**
+ * Caption state that follows utterance events: shown while an utterance plays, held briefly
+ * once it finished. Event ids must be unique across everything fed in.
+ */
+export function useUtteranceCaption() {
+  const [caption, setCaption] = useState<Caption | null>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const idRef = useRef<string | null>(null);
+
+  useEffect(() => () => clearTimeout(timeoutRef.current), []);
+
+  const updateCaption = useCallback((event: UtteranceEvent, speaker?: string) => {
+    // Queued utterances, or ones cancelled before they played, don't touch the caption on screen
+    if (event.type === 'queued' || (event.type === 'ended' && event.id !== idRef.current)) return;
+    clearTimeout(timeoutRef.current);
+    if (event.type === 'ended') {
+      idRef.current = null;
+      if (event.reason !== 'completed') {
+        setCaption(null);
+        return;
+      }
+      setCaption(prev => prev && { ...prev, elapsedMs: prev.durationMs });
+      timeoutRef.current = setTimeout(() => setCaption(null), CAPTION_HOLD_MS);
+      return;
+    }
+    idRef.current = event.id;
+    setCaption({
+      text: event.text || '',
+      speaker,
+      translation: event.translation,
+      elapsedMs: event.elapsedMs || 0,
+      durationMs: event.durationMs || 0,
+      words: event.words,
+    });
+  }, []);
+
+  return { caption, updateCaption };
+}
+
+interface CaptionsProps extends CaptionStyle {
+  caption: Caption | null;
+}
+
+/**
+ * Subtitles for the avatar's speech, revealed in step with playback.
+ */
+export const Captions: React.FC<CaptionsProps> = ({
+  caption,
+  mode = 'single',
+  position = 'bottom',
+  maxChars = 32,
+  fontSize = '1.25rem',
+  color = 'rgba(255, 255, 255, 0.6)',
+  spokenColor = '#ffffff',
+  translationColor = 'rgba(255, 255, 255, 0.85)',
+  background = 'rgba(0, 0, 0, 0.55)',
+  className,
+}) => {
+  if (!caption?.text.trim()) return null;
+
+  const spoken = getSpokenLength(caption.text, caption.elapsedMs, caption.durationMs, caption.words);
+  const lines = splitCaptionLines(caption.text, maxChars);
+  // Show the line that is being spoken right now
+  let lineStart = 0;
+  let lineIndex = 0;
+  while (lineIndex < lines.length - 1 && lineStart + lines[lineIndex].length <= spoken) {
+    lineStart += lines[lineIndex].length;
+    lineIndex++;
+  }
+  const leadingSpace = lines[lineIndex].length - lines[lineIndex].trimStart().length;
+  const line = lines[lineIndex].trim();
+  const spokenInLine = Math.max(0, Math.min(line.length, spoken - lineStart - leadingSpace));
+
+  // Translations have no timings of their own, so page them in proportion to the original
+  let translationLine = '';
+  if (mode === 'bilingual' && caption.translation) {
+    const translationLines = splitCaptionLines(caption.translation, maxChars * 2);
+    const index = Math.min(translationLines.length - 1, Math.floor((lineIndex / lines.length) * translationLines.length));
+    translationLine = translationLines[index].trim();
+  }
+
+  return (
+    <div className={className || `absolute inset-x-0 ${position === 'top' ? 'top-24' : 'bottom-48'} flex justify-center pointer-events-none px-4`}>
+      <div className="max-w-3xl px-4 py-2 rounded-lg text-center shadow-lg" style={{ background, fontSize }}>
+        <div className="font-medium leading-snug">
+          {caption.speaker && <span className="mr-2 opacity-70" style={{ color: translationColor, fontSize: '0.75em' }}>{caption.speaker}</span>}
+          <span style={{ color: spokenColor }}>{line.slice(0, spokenInLine)}</span>
+          <span style={{ color }}>{line.slice(spokenInLine)}</span>
+        </div>
+        {translationLine && (
+          <div className="mt-1 leading-snug" style={{ color: translationColor, fontSize: '0.75em' }}>
+            {translationLine}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
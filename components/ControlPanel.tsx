@@ -1,19 +1,23 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { AnimationControl, MorphTargetControl, BoneControl } from '../types';
+import { AnimationControl, MorphTargetControl, MorphBlendMode, BoneControl, ModelReport } from '../types';
+import { ModelReportPanel } from './ModelReportPanel';
 
 interface ControlPanelProps {
   animations: AnimationControl[];
   morphs: MorphTargetControl[];
   boneControls: BoneControl[];
+  report?: ModelReport | null;
   isDebuggingBones: boolean;
   onStartDebug: () => void;
   onStopDebug: () => void;
 }
 
-export const ControlPanel: React.FC<ControlPanelProps> = ({ animations, morphs, boneControls, isDebuggingBones, onStartDebug, onStopDebug }) => {
+export const ControlPanel: React.FC<ControlPanelProps> = ({ animations, morphs, boneControls, report, isDebuggingBones, onStartDebug, onStopDebug }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState<'anim' | 'morph' | 'bones'>('anim');
+  const [activeTab, setActiveTab] = useState<'anim' | 'morph' | 'bones' | 'model'>('anim');
   const [sliderValues, setSliderValues] = useState<Record<string, Record<'x'|'y'|'z', number>>>({});
+  const [morphValues, setMorphValues] = useState<Record<string, number>>({});
+  const [morphBlendMode, setMorphBlendMode] = useState<MorphBlendMode>('override');
   const formRef = useRef<HTMLFormElement>(null);
 
   useEffect(() => {
@@ -25,6 +29,11 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ animations, morphs,
     setSliderValues(initialValues);
   }, [boneControls]);
 
+  useEffect(() => {
+    // A new model brings new morph controls with no overrides
+    setMorphValues({});
+  }, [morphs]);
+
 
   const handleStopDebug = () => {
     onStopDebug();
@@ -37,7 +46,25 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ animations, morphs,
     setSliderValues(initialValues);
   };
 
-  if (animations.length === 0 && morphs.length === 0 && boneControls.length === 0) return null;
+  const handleMorphChange = (morph: MorphTargetControl, value: number) => {
+    morph.setValue(value, morphBlendMode);
+    setMorphValues(prev => ({ ...prev, [morph.name]: value }));
+  };
+
+  const handleBlendModeChange = (mode: MorphBlendMode) => {
+    setMorphBlendMode(mode);
+    // Re-apply current overrides with the new policy
+    morphs.forEach(morph => {
+      if (morphValues[morph.name] !== undefined) morph.setValue(morphValues[morph.name], mode);
+    });
+  };
+
+  const handleResetMorphs = () => {
+    morphs.forEach(morph => morph.reset());
+    setMorphValues({});
+  };
+
+  if (animations.length === 0 && morphs.length === 0 && boneControls.length === 0 && !report) return null;
 
   return (
     <div className={`absolute top-4 right-4 bg-gray-900/80 backdrop-blur-md rounded-lg border border-gray-700 transition-all duration-300 ${isOpen ? 'w-80 h-[80vh]' : 'w-12 h-12 overflow-hidden'}`}>
@@ -56,6 +83,9 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ animations, morphs,
                     <button onClick={() => setActiveTab('anim')} className={`flex-1 py-1 px-2 rounded ${activeTab === 'anim' ? 'bg-blue-600' : 'hover:bg-gray-700'}`}>动画</button>
                     <button onClick={() => setActiveTab('morph')} className={`flex-1 py-1 px-2 rounded ${activeTab === 'morph' ? 'bg-blue-600' : 'hover:bg-gray-700'}`}>表情</button>
                     <button onClick={() => setActiveTab('bones')} className={`flex-1 py-1 px-2 rounded ${activeTab === 'bones' ? 'bg-blue-600' : 'hover:bg-gray-700'}`}>骨骼</button>
+                    <button onClick={() => setActiveTab('model')} className={`flex-1 py-1 px-2 rounded ${activeTab === 'model' ? 'bg-blue-600' : 'hover:bg-gray-700'}`}>
+                        模型{report && report.warnings.length > 0 && <span className="ml-1 text-yellow-400">{report.warnings.length}</span>}
+                    </button>
                 </div>
 
                 <div className="flex-1 overflow-y-auto space-y-2 pr-2">
@@ -72,10 +102,29 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ animations, morphs,
 
                     {activeTab === 'morph' && (
                         <div className="space-y-4">
+                            <div className="p-2 bg-blue-900/30 border border-blue-700 rounded-md text-xs text-blue-200">
+                                <i className="fas fa-info-circle mr-2"></i>手动调整的表情会叠加在口型、眨眼等程序化动画之上。
+                            </div>
+                            <div className="flex gap-2 text-xs">
+                                <button type="button" onClick={() => handleBlendModeChange('override')} className={`flex-1 py-1 rounded ${morphBlendMode === 'override' ? 'bg-blue-600' : 'bg-gray-800 hover:bg-gray-700'}`} title="手动值替换程序化值">覆盖</button>
+                                <button type="button" onClick={() => handleBlendModeChange('additive')} className={`flex-1 py-1 rounded ${morphBlendMode === 'additive' ? 'bg-blue-600' : 'bg-gray-800 hover:bg-gray-700'}`} title="手动值叠加到程序化值上">叠加</button>
+                            </div>
+                            {Object.keys(morphValues).length > 0 && (
+                                <button type="button" onClick={handleResetMorphs} className="w-full text-center px-3 py-2 bg-green-600 hover:bg-green-500 rounded text-sm font-semibold">
+                                    <i className="fas fa-sync-alt mr-2"></i>重新启用程序化表情
+                                </button>
+                            )}
                             {morphs.map((morph) => (
                                 <div key={morph.name} className="flex flex-col gap-1">
-                                    <label className="text-xs text-gray-400 truncate" title={morph.name}>{morph.name}</label>
-                                    <input type="range" min="0" max="1" step="0.01" defaultValue="0" className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
+                                    <div className="flex justify-between">
+                                        <label className="text-xs text-gray-400 truncate" title={morph.name}>{morph.name}</label>
+                                        {morphValues[morph.name] !== undefined && (
+                                            <span className="text-xs font-mono text-gray-300">{morphValues[morph.name].toFixed(2)}</span>
+                                        )}
+                                    </div>
+                                    <input type="range" min="0" max="1" step="0.01" value={morphValues[morph.name] ?? 0} className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                                        onChange={(e) => handleMorphChange(morph, parseFloat(e.target.value))}
+                                    />
                                 </div>
                             ))}
                              {morphs.length === 0 && <p className="text-gray-500 text-sm">未找到混合形状</p>}
@@ -123,6 +172,10 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ animations, morphs,
                             {boneControls.length === 0 && <p className="text-gray-500 text-sm">未找到可控制的骨骼</p>}
                         </form>
                     )}
+
+                    {activeTab === 'model' && (
+                        report ? <ModelReportPanel report={report} /> : <p className="text-gray-500 text-sm">模型尚未加载</p>
+                    )}
                 </div>
             </div>
         )}
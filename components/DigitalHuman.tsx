@@ -1,171 +1,482 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GoogleGenAI, Modality } from '@google/genai';
-import { Scene } from './Scene';
-import { AnimationControl, MorphTargetControl, BoneControl, Background } from '../types';
-import { decode, decodeAudioData } from '../services/audioUtils';
-
-// --- Internal TTS & Audio Service ---
-class AudioService {
-  private ai: GoogleGenAI;
-  private outputAudioContext: AudioContext | null = null;
-  private analyzer: AnalyserNode | null = null;
-  private outputNode: GainNode | null = null;
-  private nextStartTime = 0;
-  private onAudioLevelChange: (level: number) => void;
-  private isAnalysisLoopRunning = false;
-  
-  constructor(apiKey: string, onAudioLevelChange: (level: number) => void) {
-    this.ai = new GoogleGenAI({ apiKey });
-    this.onAudioLevelChange = onAudioLevelChange;
-  }
+import React, { useState, useEffect, useRef, useCallback, useMemo, forwardRef, useImperativeHandle } from 'react';
+import { flushSync } from 'react-dom';
+import { RootState, flushSync as flushSceneSync } from '@react-three/fiber';
+import { PerspectiveCamera, Vector3 } from 'three';
+import { AvatarSlot, Scene } from './Scene';
+import { CaptionStyle, Captions, useUtteranceCaption } from './Captions';
+import {
+  AnimationControl, AvatarScript, MorphTargetControl, BoneControl, Background, Expression, ExpressionName, FaceTrackingFrame, FaceTrackingOptions, GazeOptions, GazeTarget, InterruptPolicy, ModelLoadError, ModelReport, Persona, RigOptions, ScriptCamera,
+  UtteranceEvent, UtteranceOptions, VisemeWeights
+} from '../types';
+import { AudioOutputOptions, AudioService } from '../services/audioService';
+import { createSilentVisemes } from '../services/visemeEngine';
+import { TtsProvider } from '../services/providers';
+import { GeminiProvider } from '../services/geminiProvider';
+import { normalizeExpression } from '../services/expressions';
+import { DEFAULT_PERSONA } from '../services/personas';
+import { FaceTracker, startFaceTracking } from '../services/faceTracking';
+import { FrameCompositor, FrameOptions, RecordingOptions, SessionRecorder } from '../services/sessionRecorder';
+import { ScriptRenderOptions, ScriptRenderResult, prepareScript, renderScriptFrames } from '../services/scriptRenderer';
 
-  private async initializeAudioContext() {
-    if (!this.outputAudioContext) {
-      this.outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      this.analyzer = this.outputAudioContext.createAnalyser();
-      this.analyzer.fftSize = 256;
-      this.outputNode = this.outputAudioContext.createGain();
-      this.outputNode.connect(this.analyzer);
-      this.analyzer.connect(this.outputAudioContext.destination);
-      if (!this.isAnalysisLoopRunning) {
-        this.startAnalysisLoop();
-      }
-    }
-    if (this.outputAudioContext.state === 'suspended') {
-      await this.outputAudioContext.resume();
-    }
-  }
+const SILENT_VISEMES = createSilentVisemes();
 
-  async playAudio(base64Audio: string) {
-    await this.initializeAudioContext();
-
-    if (this.outputAudioContext!.currentTime > this.nextStartTime) {
-      this.nextStartTime = this.outputAudioContext!.currentTime;
-    }
-
-    try {
-      const audioBuffer = await decodeAudioData(
-        decode(base64Audio),
-        this.outputAudioContext!,
-        24000,
-        1
-      );
-      
-      const source = this.outputAudioContext!.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(this.outputNode!);
-      source.start(this.nextStartTime);
-      this.nextStartTime += audioBuffer.duration;
-    } catch (e) {
-      console.error("Error decoding audio data", e);
-    }
+// Commits a state change to both the page and the canvas before returning, so the next frame
+// rendered with state.advance() already shows it
+function commitNow(update: () => void) {
+  flushSceneSync(() => flushSync(update));
+}
+
+// The orbit controls' target; OrbitControls is the scene's default controls
+type SceneControls = { target: Vector3; update: () => void };
+
+interface CameraShot {
+  position: Vector3;
+  target: Vector3 | null;
+  fov: number | null;
+}
+
+function getCameraShot(state: RootState): CameraShot {
+  const camera = state.camera as PerspectiveCamera;
+  const controls = state.controls as unknown as SceneControls | null;
+  return { position: camera.position.clone(), target: controls?.target.clone() ?? null, fov: camera.isPerspectiveCamera ? camera.fov : null };
+}
+
+function setCameraShot(state: RootState, shot: CameraShot) {
+  const camera = state.camera as PerspectiveCamera;
+  const controls = state.controls as unknown as SceneControls | null;
+  camera.position.copy(shot.position);
+  if (shot.fov !== null && camera.isPerspectiveCamera) {
+    camera.fov = shot.fov;
+    camera.updateProjectionMatrix();
   }
+  if (controls && shot.target) {
+    controls.target.copy(shot.target);
+    controls.update();
+  } else if (shot.target) {
+    camera.lookAt(shot.target);
+  }
+}
+
+// A script camera cue relative to the shot the render started from
+function toCameraShot(camera: ScriptCamera, home: CameraShot): CameraShot {
+  return {
+    position: new Vector3(...camera.position),
+    target: camera.target ? new Vector3(...camera.target) : home.target,
+    fov: camera.fov ?? home.fov,
+  };
+}
+
+let scriptRunCount = 0;
+let expressionCueCount = 0;
+
+/**
+ * Expressions passed to speak() wait until their utterance starts playing, so the face changes
+ * with the words rather than when the sentence is queued behind others.
+ */
+export function useExpressionCues(setExpression: (expression: ExpressionName | Expression) => void) {
+  const cuesRef = useRef(new Map<string, ExpressionName | Expression>());
+  return useMemo(() => ({
+    // The id to queue the utterance under
+    add: (id: string | undefined, expression?: ExpressionName | Expression) => {
+      if (!expression) return id;
+      const utteranceId = id ?? `expression-cue-${++expressionCueCount}`;
+      cuesRef.current.set(utteranceId, expression);
+      return utteranceId;
+    },
+    handleEvent: (event: UtteranceEvent) => {
+      const expression = cuesRef.current.get(event.id);
+      if (!expression || (event.type !== 'started' && event.type !== 'ended')) return;
+      cuesRef.current.delete(event.id);
+      if (event.type === 'started') setExpression(expression);
+    },
+  }), [setExpression]);
+}
+
+// --- Imperative Handle ---
+export interface SpeakOptions extends Omit<UtteranceOptions, 'interrupt'> {
+  interrupt?: boolean | InterruptPolicy; // true is the same as 'replace'
+  expression?: ExpressionName | Expression; // switch expression when the utterance starts playing
+}
+
+// Audio callbacks a speaking avatar reports besides its visemes
+interface AvatarSpeechEvents {
+  onAudioLevel?: (level: number) => void;
+  onPlayingChange?: (isPlaying: boolean) => void;
+  onUtteranceEvent?: (event: UtteranceEvent) => void;
+}
+
+/**
+ * The speaking side of an avatar, shared by DigitalHuman and the stage's avatars: an audio service
+ * per TTS provider and voice, the visemes it drives, the listening pose and the current expression.
+ * The expression argument sets the face, but speak()/setExpression() can change it in between.
+ */
+export function useAvatarSpeech(
+  tts: TtsProvider | null,
+  expression: ExpressionName | Expression | undefined,
+  output: AudioOutputOptions,
+  events: AvatarSpeechEvents
+) {
+  const [visemes, setVisemes] = useState<VisemeWeights>(SILENT_VISEMES);
+  const [isListening, setIsListening] = useState(false);
+  const [currentExpression, setCurrentExpression] = useState(expression);
+  useEffect(() => {
+    setCurrentExpression(expression);
+  }, [expression]);
+  const expressionCues = useExpressionCues(setCurrentExpression);
+  const { name: expressionName, intensity, transitionMs } = normalizeExpression(currentExpression);
+  const normalizedExpression = useMemo(
+    () => ({ name: expressionName, intensity, transitionMs }),
+    [expressionName, intensity, transitionMs]
+  );
+  const audioServiceRef = useRef<AudioService | null>(null);
+  // Latest event callbacks, so the audio service doesn't have to be rebuilt when they change
+  const eventsRef = useRef(events);
+  eventsRef.current = events;
+  const { voiceName, ttsModel, pan } = output;
+
+  useEffect(() => {
+    if (!tts) return;
+    const audioService = new AudioService(
+      tts,
+      (nextVisemes, level) => {
+        setVisemes(nextVisemes);
+        eventsRef.current.onAudioLevel?.(level);
+      },
+      (isPlaying) => eventsRef.current.onPlayingChange?.(isPlaying),
+      (event) => {
+        expressionCues.handleEvent(event);
+        eventsRef.current.onUtteranceEvent?.(event);
+      },
+      { voiceName, ttsModel, pan }
+    );
+    audioServiceRef.current = audioService;
+    return () => {
+      audioService.dispose();
+      if (audioServiceRef.current === audioService) audioServiceRef.current = null;
+    };
+  }, [tts, voiceName, ttsModel, pan, expressionCues]);
 
-  async generateAndPlayTTS(text: string) {
-    try {
-      const ttsResponse = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash-preview-tts',
-        contents: [{ parts: [{ text }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
-        },
+  const controls = useMemo(() => ({
+    speak: (text: string, options: SpeakOptions = {}) => {
+      if (!audioServiceRef.current) return Promise.resolve();
+      const { expression: speakExpression, interrupt, ...utteranceOptions } = options;
+      setIsListening(false);
+      return audioServiceRef.current.speak(text, {
+        ...utteranceOptions,
+        id: expressionCues.add(utteranceOptions.id, speakExpression),
+        interrupt: interrupt === true ? 'replace' : interrupt || undefined,
       });
-      
-      const audioData = ttsResponse.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (audioData) {
-        await this.playAudio(audioData);
-      }
-    } catch (e) {
-      console.warn("TTS generation failed.", e);
-    }
-  }
+    },
+    enqueueAudio: (base64Pcm: string, options?: UtteranceOptions) => {
+      if (!audioServiceRef.current) return Promise.resolve();
+      setIsListening(false);
+      return audioServiceRef.current.appendAudio(base64Pcm, options);
+    },
+    setStreamText: (text: string, id?: string) => audioServiceRef.current?.setStreamText(text, id) ?? false,
+    cancel: (id: string) => audioServiceRef.current?.cancel(id) ?? false,
+    stop: (listen: boolean) => {
+      audioServiceRef.current?.stop();
+      setIsListening(listen);
+    },
+    setExpression: setCurrentExpression,
+    getRecordingStream: async () => audioServiceRef.current ? audioServiceRef.current.getRecordingStream() : null,
+  }), [expressionCues]);
 
-  private startAnalysisLoop() {
-    this.isAnalysisLoopRunning = true;
-    const loop = () => {
-      if (this.analyzer && this.outputAudioContext?.state === 'running') {
-        const dataArray = new Uint8Array(this.analyzer.frequencyBinCount);
-        this.analyzer.getByteTimeDomainData(dataArray);
-        
-        let sum = 0;
-        for(let i = 0; i < dataArray.length; i++) {
-          const v = (dataArray[i] - 128) / 128;
-          sum += v * v;
-        }
-        const rms = Math.sqrt(sum / dataArray.length);
-        this.onAudioLevelChange(Math.min(1, rms * 8));
-      } else {
-        this.onAudioLevelChange(0);
+  return { visemes, isListening, setIsListening, currentExpression, setCurrentExpression, normalizedExpression, controls };
+}
+
+export interface DigitalHumanHandle {
+  speak: (text: string, options?: SpeakOptions) => Promise<void>; // resolves when the utterance finished playing
+  enqueueAudio: (base64Pcm: string, options?: UtteranceOptions) => Promise<void>; // 24kHz 16-bit mono PCM, resolves when its stream ended
+  setStreamText: (text: string, id?: string) => boolean; // caption for the open audio stream, e.g. a growing live transcript
+  cancel: (id: string) => boolean; // false when no utterance with that id is playing or queued
+  stop: (options?: { listen?: boolean }) => void; // listen: switch to the attentive listening pose
+  setExpression: (expression: ExpressionName | Expression) => void;
+  playAnimation: (name: string) => boolean; // false when the model has no such animation
+  startRecording: (options?: RecordingOptions) => Promise<void>; // records the canvas and the avatar's voice
+  pauseRecording: () => void;
+  resumeRecording: () => void;
+  stopRecording: () => Promise<Blob | null>; // the video file, or null when nothing was being recorded
+  // Renders the script frame by frame instead of playing it, to PNG frames and a WAV soundtrack
+  renderScript: (script: AvatarScript, options?: ScriptRenderOptions & FrameOptions) => Promise<ScriptRenderResult>;
+}
+
+/**
+ * Records a scene's canvas together with audio streams, for components built on Scene. Pass the
+ * scene's `state.get` to `handleSceneReady`; recording options default to `defaults`.
+ */
+export function useSessionRecorder(getAudioStreams: () => Promise<MediaStream[]>, defaults: RecordingOptions) {
+  const getSceneRef = useRef<(() => RootState) | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const isStartingRef = useRef(false);
+  const latestRef = useRef({ getAudioStreams, defaults });
+  latestRef.current = { getAudioStreams, defaults };
+
+  // A recording left running is finished (and dropped) with the component
+  useEffect(() => () => { recorderRef.current?.stop(); }, []);
+
+  const handleSceneReady = useCallback((getScene: () => RootState) => {
+    getSceneRef.current = getScene;
+  }, []);
+
+  const controls = useMemo(() => ({
+    start: async (options: RecordingOptions = {}) => {
+      if (!getSceneRef.current || recorderRef.current || isStartingRef.current) return;
+      isStartingRef.current = true;
+      try {
+        const streams = await latestRef.current.getAudioStreams();
+        recorderRef.current = new SessionRecorder(getSceneRef.current, streams, { ...latestRef.current.defaults, ...options });
+        recorderRef.current.start();
+      } finally {
+        isStartingRef.current = false;
       }
-      requestAnimationFrame(loop);
-    };
-    loop();
-  }
+    },
+    pause: () => recorderRef.current?.pause(),
+    resume: () => recorderRef.current?.resume(),
+    stop: async () => {
+      const recorder = recorderRef.current;
+      recorderRef.current = null;
+      return recorder ? recorder.stop() : null;
+    },
+  }), []);
+
+  return { handleSceneReady, ...controls };
 }
 
 // --- Component Props ---
 interface DigitalHumanProps {
-  apiKey: string;
+  backendUrl?: string; // the proxy in `server/`, which keeps the Gemini API key off the client
+  apiKey?: string; // ships the key to the browser; for local experiments only
+  ttsProvider?: TtsProvider; // takes precedence over backendUrl and apiKey, e.g. an on-prem TTS or the offline MockProvider
+  persona?: Persona; // defaults for the voice, TTS model, expression, model and background below
+  voiceName?: string; // TTS voice, e.g. a Gemini prebuilt voice name
   modelUrl?: string;
-  background: Background;
-  textToSpeak?: string;
-  audioToPlay?: string; // base64 pcm audio
+  background?: Background; // required unless the persona has one
+  resolution?: [number, number]; // recordings and rendered scripts at a fixed pixel size, e.g. 1920×1080
   className?: string;
-  onReady?: (controls: { animations: AnimationControl[], morphs: MorphTargetControl[], bones: BoneControl[] }) => void;
+  onReady?: (controls: { animations: AnimationControl[], morphs: MorphTargetControl[], bones: BoneControl[], report: ModelReport }) => void;
+  onModelError?: (error: ModelLoadError) => void; // the model failed to download or parse
   isDebuggingBones?: boolean;
+  expression?: ExpressionName | Expression;
+  lookAt?: GazeTarget; // 'viewer' follows the camera, 'pointer' the mouse
+  gaze?: GazeOptions;
+  rig?: RigOptions; // bone mapping for models the built-in rig profiles don't recognize
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+  onAudioLevel?: (level: number) => void; // 0 to 1, every animation frame while audio is running
+  onUtteranceEvent?: (event: UtteranceEvent) => void;
+  captions?: boolean | CaptionStyle; // subtitles for whatever is being spoken
+  faceTrackingStream?: MediaStream | null; // webcam video; while set, the user's face drives the avatar's face and head
+  faceTracking?: FaceTrackingOptions;
+  onFaceTrackingError?: (error: unknown) => void;
 }
 
 // --- The Component ---
-export const DigitalHuman: React.FC<DigitalHumanProps> = ({
+export const DigitalHuman = forwardRef<DigitalHumanHandle, DigitalHumanProps>(({
+  backendUrl,
   apiKey,
-  modelUrl,
-  background,
-  textToSpeak,
-  audioToPlay,
+  ttsProvider,
+  persona,
+  voiceName = persona?.voiceName,
+  modelUrl = persona?.modelUrl,
+  background = persona?.background || DEFAULT_PERSONA.background!,
+  resolution,
   className,
   onReady,
-  isDebuggingBones = false
-}) => {
-  const [audioLevel, setAudioLevel] = useState(0);
-  const audioServiceRef = useRef<AudioService | null>(null);
+  onModelError,
+  isDebuggingBones = false,
+  expression = persona?.expression,
+  lookAt = 'viewer',
+  gaze,
+  rig,
+  onSpeechStart,
+  onSpeechEnd,
+  onAudioLevel,
+  onUtteranceEvent,
+  captions = false,
+  faceTrackingStream,
+  faceTracking,
+  onFaceTrackingError
+}, ref) => {
+  const { caption, updateCaption } = useUtteranceCaption();
+  const [faceFrame, setFaceFrame] = useState<FaceTrackingFrame | null>(null);
+  const ttsModel = persona?.models?.tts;
+  // One TTS provider, either the one passed in or a Gemini one built from the backend URL or API key
+  const tts = useMemo(
+    () => ttsProvider || (backendUrl ? new GeminiProvider({ backendUrl }) : apiKey ? new GeminiProvider(apiKey) : null),
+    [backendUrl, apiKey, ttsProvider]
+  );
+  const {
+    visemes, isListening, setIsListening, currentExpression, setCurrentExpression, normalizedExpression, controls: speech
+  } = useAvatarSpeech(tts, expression, { voiceName, ttsModel }, {
+    onAudioLevel,
+    onPlayingChange: (isPlaying) => {
+      if (isPlaying) onSpeechStart?.();
+      else onSpeechEnd?.();
+    },
+    onUtteranceEvent: (event) => {
+      onUtteranceEvent?.(event);
+      if (captions) updateCaption(event);
+    },
+  });
+  const onFaceTrackingErrorRef = useRef(onFaceTrackingError);
+  onFaceTrackingErrorRef.current = onFaceTrackingError;
+  const currentExpressionRef = useRef(currentExpression);
+  currentExpressionRef.current = currentExpression;
+  // Offline script render in progress: the frame loop is driven by renderScript, and the avatar
+  // is remounted with a fixed seed so every run starts from the same state
+  const [scriptRun, setScriptRun] = useState<{ id: number, seed: number } | null>(null);
+  const [scriptLookAt, setScriptLookAt] = useState<GazeTarget | undefined>(undefined);
+  // Updated in place each frame while rendering, without a React render per frame
+  const scriptVisemesRef = useRef(createSilentVisemes());
+  const isRenderingScriptRef = useRef(false);
+  const avatarWaiterRef = useRef<{ resolve: () => void, reject: (error: unknown) => void } | null>(null);
+  const getSceneRef = useRef<(() => RootState) | null>(null);
+  const animationsRef = useRef<AnimationControl[]>([]);
 
-  // Initialize the audio service once with the API key
+  // Puppeteering: run face tracking for as long as a webcam stream is provided
+  const { wasmPath, modelPath, mirror } = faceTracking || {};
   useEffect(() => {
-    if (apiKey) {
-      audioServiceRef.current = new AudioService(apiKey, setAudioLevel);
-    }
-  }, [apiKey]);
+    if (!faceTrackingStream) return;
+    let isCancelled = false;
+    let tracker: FaceTracker | null = null;
+    startFaceTracking(faceTrackingStream, (frame) => { if (!isCancelled) setFaceFrame(frame); }, { wasmPath, modelPath, mirror })
+      .then((started) => {
+        if (isCancelled) started.stop();
+        else tracker = started;
+      })
+      .catch((error) => {
+        console.error("Face tracking failed", error);
+        onFaceTrackingErrorRef.current?.(error);
+      });
+    return () => {
+      isCancelled = true;
+      tracker?.stop();
+      setFaceFrame(null);
+    };
+  }, [faceTrackingStream, wasmPath, modelPath, mirror]);
 
-  // Handle Text-to-Speech requests
-  useEffect(() => {
-    if (textToSpeak && audioServiceRef.current) {
-      audioServiceRef.current.generateAndPlayTTS(textToSpeak);
-    }
-  }, [textToSpeak]);
-  
-  // Handle direct audio playback requests
-  useEffect(() => {
-      if (audioToPlay && audioServiceRef.current) {
-          audioServiceRef.current.playAudio(audioToPlay);
+  const recorder = useSessionRecorder(
+    async () => {
+      const stream = await speech.getRecordingStream();
+      return stream ? [stream] : [];
+    },
+    { width: resolution?.[0], height: resolution?.[1], background }
+  );
+
+  useImperativeHandle(ref, () => ({
+    speak: speech.speak,
+    enqueueAudio: speech.enqueueAudio,
+    setStreamText: speech.setStreamText,
+    cancel: speech.cancel,
+    stop: (options = {}) => speech.stop(!!options.listen),
+    setExpression: speech.setExpression,
+    playAnimation: (name) => {
+      const anim = animationsRef.current.find(a => a.name === name);
+      anim?.play();
+      return !!anim;
+    },
+    startRecording: recorder.start,
+    pauseRecording: recorder.pause,
+    resumeRecording: recorder.resume,
+    stopRecording: recorder.stop,
+    renderScript: async (script, options = {}) => {
+      if (!tts || !getSceneRef.current || !modelUrl) throw new Error('数字人尚未就绪，无法渲染脚本。');
+      if (isRenderingScriptRef.current) throw new Error('已有脚本正在渲染。');
+      const getScene = getSceneRef.current;
+      const { signal, onFrame, width = resolution?.[0], height = resolution?.[1], ...frameOptions } = options;
+      const scriptVisemes = scriptVisemesRef.current;
+      const expressionBefore = currentExpressionRef.current;
+      let home: CameraShot | null = null;
+      let frames: FrameCompositor | null = null;
+      isRenderingScriptRef.current = true;
+      try {
+        const prepared = await prepareScript(script, tts, { voiceName, model: ttsModel });
+        speech.stop(false);
+        home = getCameraShot(getScene());
+        const startShot = home;
+        Object.assign(scriptVisemes, SILENT_VISEMES);
+        const avatarReady = new Promise<void>((resolve, reject) => { avatarWaiterRef.current = { resolve, reject }; });
+        commitNow(() => {
+          setIsListening(false);
+          setScriptRun({ id: ++scriptRunCount, seed: prepared.seed });
+        });
+        await avatarReady;
+        // Frame 0 renders one whole frame after the clock's start, like every frame after it
+        getScene().clock.elapsedTime = -1 / prepared.fps;
+        const compositor = frames = new FrameCompositor(getScene, { background, width, height, ...frameOptions });
+        return await renderScriptFrames(prepared, {
+          applyCue: ({ line }) => {
+            if (line.expression || line.lookAt) {
+              commitNow(() => {
+                if (line.expression) setCurrentExpression(line.expression);
+                if (line.lookAt) setScriptLookAt(line.lookAt);
+              });
+            }
+            if (line.animation) animationsRef.current.find(a => a.name === line.animation)?.play();
+            if (line.camera) setCameraShot(getScene(), toCameraShot(line.camera, startShot));
+          },
+          renderFrame: (visemes, time) => {
+            Object.assign(scriptVisemes, visemes);
+            getScene().advance(time);
+            compositor.draw();
+            return compositor.toBlob();
+          },
+        }, { signal, onFrame });
+      } finally {
+        isRenderingScriptRef.current = false;
+        avatarWaiterRef.current = null;
+        frames?.dispose();
+        if (home) {
+          setCameraShot(getScene(), home);
+          commitNow(() => {
+            setScriptRun(null);
+            setScriptLookAt(undefined);
+            setCurrentExpression(expressionBefore);
+          });
+        }
       }
-  }, [audioToPlay]);
+    },
+  }), [speech, recorder.start, recorder.pause, recorder.resume, recorder.stop, tts, modelUrl, voiceName, ttsModel, resolution, background]);
 
-  const handleAvatarReady = useCallback((anims: AnimationControl[], morphs: MorphTargetControl[], bones: BoneControl[]) => {
+  const handleAvatarReady = useCallback((anims: AnimationControl[], morphs: MorphTargetControl[], bones: BoneControl[], report: ModelReport) => {
+      animationsRef.current = anims;
+      avatarWaiterRef.current?.resolve();
       if (onReady) {
-        onReady({ animations: anims, morphs, bones });
+        onReady({ animations: anims, morphs, bones, report });
       }
   }, [onReady]);
 
+  const handleModelError = useCallback((error: ModelLoadError) => {
+      avatarWaiterRef.current?.reject(new Error(error.message));
+      onModelError?.(error);
+  }, [onModelError]);
+
+  const handleSceneCreated = useCallback((state: RootState) => {
+      getSceneRef.current = state.get;
+      recorder.handleSceneReady(state.get);
+  }, [recorder.handleSceneReady]);
+
   return (
     <div className={className || 'absolute inset-0 w-full h-full'}>
-      <Scene 
-        modelUrl={modelUrl || null} 
-        background={background}
-        audioLevel={audioLevel}
-        onAvatarReady={handleAvatarReady}
-        isDebuggingBones={isDebuggingBones}
-      />
+      <Scene background={background} frameloop={scriptRun ? 'never' : 'always'} onCreated={handleSceneCreated}>
+        <AvatarSlot 
+          key={scriptRun ? `script-${scriptRun.id}` : 'live'}
+          modelUrl={modelUrl || null} 
+          visemes={scriptRun ? scriptVisemesRef.current : visemes}
+          isListening={isListening}
+          expression={normalizedExpression}
+          lookAt={scriptLookAt ?? lookAt}
+          gaze={gaze}
+          faceFrame={faceFrame}
+          rig={rig}
+          onAvatarReady={handleAvatarReady}
+          onModelError={handleModelError}
+          seed={scriptRun?.seed}
+          isDebuggingBones={isDebuggingBones}
+        />
+      </Scene>
+      {captions && <Captions caption={caption} {...(captions === true ? {} : captions)} />}
     </div>
   );
-};
+});
@@ -0,0 +1,284 @@
+import React, { useState, useEffect, useRef, useCallback, useMemo, forwardRef, useImperativeHandle } from 'react';
+import { MathUtils, Object3D } from 'three';
+import { AvatarSlot, DEFAULT_AVATAR_POSITION, Scene } from './Scene';
+import { CaptionStyle, Captions, useUtteranceCaption } from './Captions';
+import { SpeakOptions, useAvatarSpeech, useSessionRecorder } from './DigitalHuman';
+import {
+  AnimationControl, MorphTargetControl, BoneControl, Background, Expression, ExpressionName, GazeOptions, GazeTarget, ModelLoadError, ModelReport, RigOptions,
+  UtteranceEvent, UtteranceOptions
+} from '../types';
+import { TtsProvider } from '../services/providers';
+import { GeminiProvider } from '../services/geminiProvider';
+import { RecordingOptions } from '../services/sessionRecorder';
+
+// Distance between neighbouring avatars when they are placed automatically
+const AVATAR_SPACING = 0.9;
+// How far in front of the avatars the point they turn towards is
+const FACING_DISTANCE = 3;
+
+export interface StageAvatar {
+  id: string;
+  name?: string; // shown with its captions
+  modelUrl: string;
+  voiceName?: string;
+  ttsProvider?: TtsProvider; // takes precedence over the stage's provider
+  position?: [number, number, number]; // feet position, defaults to a row across the stage
+  rotationY?: number; // radians, defaults to turning slightly towards the middle of the row
+  pan?: number; // -1 to 1, defaults to following the avatar's place on stage
+  expression?: ExpressionName | Expression;
+  lookAt?: GazeTarget; // while nobody else is speaking, defaults to 'viewer'
+  gaze?: GazeOptions;
+  rig?: RigOptions;
+}
+
+export interface StageAvatarControls {
+  animations: AnimationControl[];
+  morphs: MorphTargetControl[];
+  bones: BoneControl[];
+  report: ModelReport;
+}
+
+export interface DigitalHumanStageHandle {
+  speak: (avatarId: string, text: string, options?: SpeakOptions) => Promise<void>;
+  enqueueAudio: (avatarId: string, base64Pcm: string, options?: UtteranceOptions) => Promise<void>;
+  setStreamText: (avatarId: string, text: string, id?: string) => boolean;
+  cancel: (avatarId: string, id: string) => boolean;
+  stop: (avatarId?: string, options?: { listen?: boolean }) => void; // without an id, every avatar stops
+  setExpression: (avatarId: string, expression: ExpressionName | Expression) => void;
+  playAnimation: (avatarId: string, name: string) => boolean;
+  startRecording: (options?: RecordingOptions) => Promise<void>; // every avatar's voice is mixed into the recording
+  pauseRecording: () => void;
+  resumeRecording: () => void;
+  stopRecording: () => Promise<Blob | null>;
+}
+
+interface DigitalHumanStageProps {
+  avatars: StageAvatar[];
+  backendUrl?: string; // as for DigitalHuman
+  apiKey?: string;
+  ttsProvider?: TtsProvider; // shared by avatars that don't bring their own
+  background: Background;
+  resolution?: [number, number]; // recordings at a fixed pixel size
+  className?: string;
+  captions?: boolean | CaptionStyle;
+  reactToSpeaker?: boolean; // the others turn to look at whoever is speaking, defaults to true
+  isDebuggingBones?: boolean;
+  onReady?: (avatarId: string, controls: StageAvatarControls) => void;
+  onModelError?: (avatarId: string, error: ModelLoadError) => void;
+  onUtteranceEvent?: (avatarId: string, event: UtteranceEvent) => void;
+}
+
+// What the stage's handle calls on one avatar
+interface MemberController {
+  speak: (text: string, options?: SpeakOptions) => Promise<void>;
+  enqueueAudio: (base64Pcm: string, options?: UtteranceOptions) => Promise<void>;
+  setStreamText: (text: string, id?: string) => boolean;
+  cancel: (id: string) => boolean;
+  stop: (listen: boolean) => void;
+  setExpression: (expression: ExpressionName | Expression) => void;
+  playAnimation: (name: string) => boolean;
+  getRecordingStream: () => Promise<MediaStream | null>;
+}
+
+interface Placement {
+  position: [number, number, number];
+  rotationY: number;
+  pan: number;
+}
+
+/**
+ * Stands avatars without an explicit position in a row centred where a single avatar would stand,
+ * each turned a little towards the middle and panned to its side.
+ */
+function placeAvatars(avatars: StageAvatar[]): Placement[] {
+  const [centerX, y, z] = DEFAULT_AVATAR_POSITION;
+  return avatars.map((avatar, i) => {
+    const position = avatar.position || [centerX + (i - (avatars.length - 1) / 2) * AVATAR_SPACING, y, z];
+    return {
+      position,
+      rotationY: avatar.rotationY ?? Math.atan2(centerX - position[0], FACING_DISTANCE),
+      pan: avatar.pan ?? MathUtils.clamp(position[0] - centerX, -1, 1),
+    };
+  });
+}
+
+interface StageMemberProps {
+  avatar: StageAvatar;
+  placement: Placement;
+  tts: TtsProvider | null;
+  lookAt: GazeTarget;
+  isDebuggingBones: boolean;
+  register: (id: string, controller: MemberController | null) => void;
+  onHeadReady: (id: string, head: Object3D) => void;
+  onReady: (id: string, controls: StageAvatarControls) => void;
+  onModelError: (id: string, error: ModelLoadError) => void;
+  onUtteranceEvent: (id: string, event: UtteranceEvent) => void;
+}
+
+/**
+ * One avatar on the stage with its own audio output, so avatars can speak over each other.
+ */
+const StageMember: React.FC<StageMemberProps> = ({ avatar, placement, tts, lookAt, isDebuggingBones, register, onHeadReady, onReady, onModelError, onUtteranceEvent }) => {
+  const { id, voiceName, expression } = avatar;
+  const { visemes, isListening, normalizedExpression, controls: speech } = useAvatarSpeech(
+    tts,
+    expression,
+    { voiceName, pan: placement.pan },
+    { onUtteranceEvent: (event) => onUtteranceEvent(id, event) }
+  );
+  const animationsRef = useRef<AnimationControl[]>([]);
+
+  useEffect(() => {
+    register(id, {
+      ...speech,
+      playAnimation: (name) => {
+        const anim = animationsRef.current.find(a => a.name === name);
+        anim?.play();
+        return !!anim;
+      },
+    });
+    return () => register(id, null);
+  }, [id, register, speech]);
+
+  const handleAvatarReady = useCallback((animations: AnimationControl[], morphs: MorphTargetControl[], bones: BoneControl[], report: ModelReport) => {
+    animationsRef.current = animations;
+    onReady(id, { animations, morphs, bones, report });
+  }, [id, onReady]);
+  const handleHeadReady = useCallback((head: Object3D) => onHeadReady(id, head), [id, onHeadReady]);
+  const handleModelError = useCallback((error: ModelLoadError) => onModelError(id, error), [id, onModelError]);
+
+  return (
+    <AvatarSlot
+      modelUrl={avatar.modelUrl}
+      position={placement.position}
+      rotationY={placement.rotationY}
+      visemes={visemes}
+      isListening={isListening}
+      expression={normalizedExpression}
+      lookAt={lookAt}
+      gaze={avatar.gaze}
+      rig={avatar.rig}
+      onAvatarReady={handleAvatarReady}
+      onHeadReady={handleHeadReady}
+      onModelError={handleModelError}
+      isDebuggingBones={isDebuggingBones}
+    />
+  );
+};
+
+/**
+ * Several avatars in one scene, each with its own model, voice and audio channel. Utterances
+ * are routed to an avatar by id, and while one speaks the others turn to look at it.
+ */
+export const DigitalHumanStage = forwardRef<DigitalHumanStageHandle, DigitalHumanStageProps>(({
+  avatars,
+  backendUrl,
+  apiKey,
+  ttsProvider,
+  background,
+  resolution,
+  className,
+  captions = false,
+  reactToSpeaker = true,
+  isDebuggingBones = false,
+  onReady,
+  onModelError,
+  onUtteranceEvent,
+}, ref) => {
+  const membersRef = useRef(new Map<string, MemberController>());
+  const [heads, setHeads] = useState<Record<string, Object3D>>({});
+  const [speakerId, setSpeakerId] = useState<string | null>(null);
+  const { caption, updateCaption } = useUtteranceCaption();
+  const showCaptionsRef = useRef(!!captions);
+  showCaptionsRef.current = !!captions;
+  const callbacksRef = useRef({ onReady, onModelError, onUtteranceEvent });
+  callbacksRef.current = { onReady, onModelError, onUtteranceEvent };
+
+  const placements = useMemo(() => placeAvatars(avatars), [avatars]);
+  const names = useMemo(() => new Map(avatars.map(avatar => [avatar.id, avatar.name])), [avatars]);
+  const namesRef = useRef(names);
+  namesRef.current = names;
+
+  // Shared by every avatar without its own provider; each still synthesizes with its own voice
+  const sharedTts = useMemo(
+    () => ttsProvider || (backendUrl ? new GeminiProvider({ backendUrl }) : apiKey ? new GeminiProvider(apiKey) : null),
+    [backendUrl, apiKey, ttsProvider]
+  );
+
+  const register = useCallback((id: string, controller: MemberController | null) => {
+    if (controller) membersRef.current.set(id, controller);
+    else membersRef.current.delete(id);
+  }, []);
+  const handleHeadReady = useCallback((id: string, head: Object3D) => {
+    setHeads(prev => prev[id] === head ? prev : { ...prev, [id]: head });
+  }, []);
+  const handleReady = useCallback((id: string, controls: StageAvatarControls) => {
+    callbacksRef.current.onReady?.(id, controls);
+  }, []);
+  const handleModelError = useCallback((id: string, error: ModelLoadError) => {
+    callbacksRef.current.onModelError?.(id, error);
+  }, []);
+  const handleUtteranceEvent = useCallback((id: string, event: UtteranceEvent) => {
+    if (event.type === 'started') setSpeakerId(id);
+    if (event.type === 'ended') setSpeakerId(prev => prev === id ? null : prev);
+    callbacksRef.current.onUtteranceEvent?.(id, event);
+    // Utterance ids are only unique per avatar
+    if (showCaptionsRef.current) updateCaption({ ...event, id: `${id}:${event.id}` }, namesRef.current.get(id));
+  }, [updateCaption]);
+
+  const getMember = (id: string) => {
+    const member = membersRef.current.get(id);
+    if (!member) console.warn(`No avatar "${id}" on stage.`);
+    return member;
+  };
+
+  const recorder = useSessionRecorder(
+    async () => {
+      const streams = await Promise.all(Array.from(membersRef.current.values()).map(member => member.getRecordingStream()));
+      return streams.filter((stream): stream is MediaStream => !!stream);
+    },
+    { width: resolution?.[0], height: resolution?.[1], background }
+  );
+
+  useImperativeHandle(ref, () => ({
+    speak: (avatarId, text, options) => getMember(avatarId)?.speak(text, options) ?? Promise.resolve(),
+    enqueueAudio: (avatarId, base64Pcm, options) => getMember(avatarId)?.enqueueAudio(base64Pcm, options) ?? Promise.resolve(),
+    setStreamText: (avatarId, text, id) => getMember(avatarId)?.setStreamText(text, id) ?? false,
+    cancel: (avatarId, id) => getMember(avatarId)?.cancel(id) ?? false,
+    stop: (avatarId, options = {}) => {
+      if (avatarId) getMember(avatarId)?.stop(!!options.listen);
+      else membersRef.current.forEach(member => member.stop(!!options.listen));
+    },
+    setExpression: (avatarId, expression) => getMember(avatarId)?.setExpression(expression),
+    playAnimation: (avatarId, name) => getMember(avatarId)?.playAnimation(name) ?? false,
+    startRecording: recorder.start,
+    pauseRecording: recorder.pause,
+    resumeRecording: recorder.resume,
+    stopRecording: recorder.stop,
+  }), [recorder.start, recorder.pause, recorder.resume, recorder.stop]);
+
+  const speakerHead = speakerId ? heads[speakerId] : undefined;
+
+  return (
+    <div className={className || 'absolute inset-0 w-full h-full'}>
+      <Scene background={background} avatarPositions={placements.map(placement => placement.position)} onCreated={state => recorder.handleSceneReady(state.get)}>
+        {avatars.map((avatar, i) => (
+          <StageMember
+            key={avatar.id}
+            avatar={avatar}
+            placement={placements[i]}
+            tts={avatar.ttsProvider || sharedTts}
+            lookAt={reactToSpeaker && speakerHead && speakerId !== avatar.id ? speakerHead : avatar.lookAt || 'viewer'}
+            isDebuggingBones={isDebuggingBones}
+            register={register}
+            onHeadReady={handleHeadReady}
+            onReady={handleReady}
+            onModelError={handleModelError}
+            onUtteranceEvent={handleUtteranceEvent}
+          />
+        ))}
+      </Scene>
+      {captions && <Captions caption={caption} {...(captions === true ? {} : captions)} />}
+    </div>
+  );
+});
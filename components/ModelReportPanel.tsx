@@ -0,0 +1,57 @@
+import React from 'react';
+import { LipSyncSupport, ModelReport } from '../types';
+import { ARKIT_BLENDSHAPES } from '../services/modelInspector';
+
+const LIP_SYNC_LABELS: Record<LipSyncSupport, string> = {
+  visemes: 'Oculus 口型',
+  vrm: 'VRM 口型',
+  jaw: '仅张嘴',
+  none: '不支持',
+};
+
+const Row: React.FC<{ label: string, ok?: boolean, children: React.ReactNode }> = ({ label, ok, children }) => (
+  <div className="flex justify-between gap-2 text-xs">
+    <span className="text-gray-400">{label}</span>
+    <span className={`font-mono text-right ${ok === undefined ? 'text-gray-300' : ok ? 'text-green-400' : 'text-yellow-400'}`}>{children}</span>
+  </div>
+);
+
+/**
+ * What the loaded model supports, and what won't work with it.
+ */
+export const ModelReportPanel: React.FC<{ report: ModelReport }> = ({ report }) => {
+  const largestTexture = report.textures.reduce((max, t) => Math.max(max, t.width, t.height), 0);
+  return (
+    <div className="space-y-4">
+      <div className="p-3 bg-gray-800 rounded-lg space-y-1">
+        <Row label="格式">{report.format === 'vrm' ? 'VRM' : 'glTF'}</Row>
+        <Row label="口型同步" ok={report.lipSync === 'visemes' || report.lipSync === 'vrm'}>{LIP_SYNC_LABELS[report.lipSync]}</Row>
+        <Row label="Oculus 口型">{report.visemes} / 15</Row>
+        <Row label="ARKit 混合形状">{report.arkitBlendshapes} / {ARKIT_BLENDSHAPES.length}</Row>
+        <Row label="眨眼" ok={report.eyeBlink}>{report.eyeBlink ? '支持' : '不支持'}</Row>
+        <Row label="骨骼">{report.rigProfile} · {report.bonesFound.length} / {report.bonesFound.length + report.bonesMissing.length}</Row>
+        <Row label="动画">{report.animations.length}</Row>
+        <Row label="三角面">{report.polycount.toLocaleString()}</Row>
+        <Row label="纹理">{report.textures.length}{largestTexture > 0 && ` · 最大 ${largestTexture}px`}</Row>
+      </div>
+
+      {report.warnings.length > 0 ? (
+        <div className="space-y-2">
+          {report.warnings.map((warning, i) => (
+            <div key={i} className="p-2 bg-yellow-900/30 border border-yellow-700 rounded-md text-xs text-yellow-200">
+              <i className="fas fa-exclamation-triangle mr-2"></i>{warning.message}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="p-2 bg-green-900/30 border border-green-700 rounded-md text-xs text-green-200">
+          <i className="fas fa-check-circle mr-2"></i>模型支持所有功能。
+        </div>
+      )}
+
+      {report.bonesMissing.length > 0 && (
+        <p className="text-gray-500 text-xs">未找到的骨骼：{report.bonesMissing.join('、')}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useRef, useState } from 'react';
+import { Persona } from '../types';
+import { exportPersona, parsePersona } from '../services/personas';
+
+interface PersonaPanelProps {
+  personas: Persona[];
+  currentId: string;
+  onSelect: (persona: Persona) => void;
+  onImport: (persona: Persona) => void;
+  onClose: () => void;
+}
+
+export const PersonaPanel: React.FC<PersonaPanelProps> = ({ personas, currentId, onSelect, onImport, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const current = personas.find(p => p.id === currentId);
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(parsePersona(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleExport = () => {
+    if (!current) return;
+    const url = URL.createObjectURL(new Blob([exportPersona(current)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${current.id}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <div className="absolute top-full left-0 mt-2 bg-gray-900/95 backdrop-blur-md rounded-xl border border-gray-700 w-72 shadow-2xl z-50 flex flex-col max-h-[70vh]">
+      <div className="flex justify-between items-center p-4 border-b border-gray-800 flex-shrink-0">
+        <h4 className="text-xs font-bold text-gray-300 uppercase tracking-wider">人设</h4>
+        <button onClick={onClose} className="text-gray-500 hover:text-white"><i className="fas fa-times"></i></button>
+      </div>
+
+      <div className="overflow-y-auto p-4 space-y-2 custom-scrollbar">
+          {personas.map(persona => (
+            <button
+              key={persona.id}
+              onClick={() => onSelect(persona)}
+              className={`w-full text-left p-2 rounded-lg border transition-all ${persona.id === currentId ? 'bg-blue-900/40 border-blue-500' : 'bg-gray-800 hover:bg-gray-700 border-gray-700'}`}
+            >
+              <div className="flex justify-between items-center">
+                <span className="text-sm font-medium text-white">{persona.name}</span>
+                <span className="text-[10px] font-mono text-gray-400">{[persona.voiceName, persona.language].filter(Boolean).join(' · ')}</span>
+              </div>
+              <p className="text-[10px] text-gray-400 mt-1 line-clamp-2">{persona.systemInstruction}</p>
+            </button>
+          ))}
+
+          {error && (
+            <div className="p-2 bg-red-900/30 border border-red-700 rounded-md text-xs text-red-200">
+              <i className="fas fa-exclamation-triangle mr-2"></i>{error}
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex-1 py-2 bg-gray-800 hover:bg-gray-700 rounded text-xs border border-gray-700 text-gray-300 transition-colors"
+              >
+                <i className="fas fa-file-import mr-1"></i> 导入
+                <input type="file" ref={fileInputRef} className="hidden" accept=".json,application/json" onChange={handleFileUpload} />
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={!current}
+                className="flex-1 py-2 bg-gray-800 hover:bg-gray-700 rounded text-xs border border-gray-700 text-gray-300 transition-colors disabled:opacity-50"
+              >
+                <i className="fas fa-file-export mr-1"></i> 导出当前
+              </button>
+          </div>
+      </div>
+    </div>
+  );
+};
@@ -1,34 +1,67 @@
 import React, { Suspense, Component, ErrorInfo, ReactNode } from 'react';
-import { Canvas, useThree } from '@react-three/fiber';
+import { Canvas, RootState, useThree } from '@react-three/fiber';
 import { Environment, OrbitControls, ContactShadows, Sky, Html, useProgress, useTexture, Plane } from '@react-three/drei';
-import { Texture } from 'three';
+import { Object3D, Texture } from 'three';
 import { Avatar } from './Avatar';
-import { AnimationControl, MorphTargetControl, BoneControl, Background } from '../types';
+import { AnimationControl, MorphTargetControl, BoneControl, Background, Expression, FaceTrackingFrame, GazeOptions, GazeTarget, ModelLoadError, ModelReport, RigOptions, VisemeWeights } from '../types';
+import { describeModelError } from '../services/modelInspector';
+
+// Where a single avatar stands; the camera and orbit target are framed around it
+export const DEFAULT_AVATAR_POSITION: [number, number, number] = [-0.4, -0.8, 0];
+// Orbit target height above the avatars' feet, roughly chest height
+const TARGET_HEIGHT = 1.1;
 
 interface SceneProps {
-  modelUrl: string | null;
   background: Background;
-  audioLevel: number;
-  onAvatarReady: (anims: AnimationControl[], morphs: MorphTargetControl[], bones: BoneControl[]) => void;
+  // Feet positions of the avatars in the scene, so the camera orbits around their middle
+  avatarPositions?: [number, number, number][];
+  frameloop?: 'always' | 'never'; // 'never' leaves rendering to state.advance(), e.g. for offline rendering
+  onCreated?: (state: RootState) => void;
+  children?: ReactNode;
+}
+
+interface AvatarSlotProps {
+  modelUrl: string | null;
+  position?: [number, number, number];
+  rotationY?: number; // radians; avatars face +Z, towards the default camera
+  visemes: VisemeWeights;
+  isListening: boolean;
+  expression: Required<Expression>;
+  lookAt: GazeTarget;
+  gaze?: GazeOptions;
+  faceFrame?: FaceTrackingFrame | null;
+  rig?: RigOptions;
+  onAvatarReady: (anims: AnimationControl[], morphs: MorphTargetControl[], bones: BoneControl[], report: ModelReport) => void;
+  onModelError?: (error: ModelLoadError) => void;
+  onHeadReady?: (head: Object3D) => void;
+  seed?: number;
   isDebuggingBones: boolean;
 }
 
+interface AvatarErrorBoundaryProps {
+  children: ReactNode;
+  resetKey: string | null; // a new model gets a fresh attempt
+  fallback: (error: ModelLoadError) => ReactNode;
+  onError?: (error: ModelLoadError) => void;
+}
+
 // Simple Error Boundary to catch GLTF loading errors
-class AvatarErrorBoundary extends Component<{ children: ReactNode, fallback: ReactNode }, { hasError: boolean }> {
-  state = { hasError: false };
+class AvatarErrorBoundary extends Component<AvatarErrorBoundaryProps, { error: ModelLoadError | null }> {
+  state: { error: ModelLoadError | null } = { error: null };
   static getDerivedStateFromError(error: Error) {
-    return { hasError: true };
+    return { error: describeModelError(error) };
   }
   componentDidCatch(error: Error, info: ErrorInfo) {
     console.error("Avatar Error:", error, info);
+    this.props.onError?.(describeModelError(error));
   }
-  componentDidUpdate(prevProps: { children: ReactNode }) {
-      if (prevProps.children !== this.props.children) {
-          this.setState({ hasError: false });
+  componentDidUpdate(prevProps: AvatarErrorBoundaryProps) {
+      if (prevProps.resetKey !== this.props.resetKey && this.state.error) {
+          this.setState({ error: null });
       }
   }
   render() {
-    return this.state.hasError ? this.props.fallback : this.props.children;
+    return this.state.error ? this.props.fallback(this.state.error) : this.props.children;
   }
 }
 
@@ -94,16 +127,65 @@ function Loader() {
   );
 }
 
-export const Scene: React.FC<SceneProps> = ({ modelUrl, background, audioLevel, onAvatarReady, isDebuggingBones }) => {
+/**
+ * One avatar at its place in the scene, with its own loading indicator and error message.
+ */
+export const AvatarSlot: React.FC<AvatarSlotProps> = ({ modelUrl, position = DEFAULT_AVATAR_POSITION, rotationY = 0, onAvatarReady, onModelError, ...avatarProps }) => (
+  <AvatarErrorBoundary 
+    resetKey={modelUrl}
+    onError={onModelError}
+    fallback={error => (
+      <Html center position={[position[0], position[1] + TARGET_HEIGHT, position[2]]}>
+          <div className="bg-red-900/80 p-4 rounded-xl border border-red-500 backdrop-blur-sm max-w-xs text-center">
+              <div className="text-2xl text-red-300 mb-2"><i className="fas fa-exclamation-triangle"></i></div>
+              <p className="text-white font-bold mb-1">无法加载模型</p>
+              <p className="text-gray-300 text-xs mb-3">{error.message}</p>
+              {error.kind === 'not-found' && (
+                <div className="text-gray-400 text-[10px] text-left space-y-1 bg-black/30 p-2 rounded">
+                    <p>1. 如果使用本地文件，请将其放入 <span className="text-yellow-300 font-mono">public</span> 文件夹。</p>
+                    <p>2. 或者使用 "上传模型" 按钮手动选择文件。</p>
+                </div>
+              )}
+              {error.kind === 'parse' && (
+                <p className="text-gray-400 text-[10px] text-left font-mono bg-black/30 p-2 rounded break-all">{error.detail}</p>
+              )}
+          </div>
+      </Html>
+    )}
+  >
+    <Suspense fallback={<Loader />}>
+      {modelUrl && (
+        <group position={position} rotation={[0, rotationY, 0]}>
+           <group scale={0.9}>
+              <Avatar 
+                key={modelUrl}
+                url={modelUrl} 
+                onControlsReady={onAvatarReady} 
+                {...avatarProps}
+              />
+           </group>
+        </group>
+      )}
+    </Suspense>
+  </AvatarErrorBoundary>
+);
+
+/**
+ * The canvas, background, lighting and camera that avatars are placed in.
+ */
+export const Scene: React.FC<SceneProps> = ({ background, avatarPositions = [DEFAULT_AVATAR_POSITION], frameloop = 'always', onCreated, children }) => {
   // Determine CSS background for gradients
   const containerStyle = background.type === 'gradient' 
     ? { background: background.value }
     : { backgroundColor: 'black' };
+  const positions = avatarPositions.length ? avatarPositions : [DEFAULT_AVATAR_POSITION];
+  const [x, y, z] = [0, 1, 2].map(axis => positions.reduce((sum, p) => sum + p[axis], 0) / positions.length);
+  const target: [number, number, number] = [x, y + TARGET_HEIGHT, z];
 
   return (
     <div className="absolute inset-0 w-full h-full" style={containerStyle}>
       {/* Enable alpha on Canvas to let CSS background show through when needed */}
-      <Canvas shadows camera={{ position: [0.2, 0.2, 3.8], fov: 30 }} gl={{ alpha: true }}>
+      <Canvas shadows camera={{ position: [0.2, 0.2, 3.8], fov: 30 }} gl={{ alpha: true }} frameloop={frameloop} onCreated={onCreated}>
         
         <Suspense fallback={null}>
             <BackgroundRenderer background={background} />
@@ -119,42 +201,14 @@ export const Scene: React.FC<SceneProps> = ({ modelUrl, background, audioLevel,
             shadow-mapSize-height={2048}
         />
         
-        <AvatarErrorBoundary 
-          fallback={
-            <Html center>
-                <div className="bg-red-900/80 p-4 rounded-xl border border-red-500 backdrop-blur-sm max-w-xs text-center">
-                    <div className="text-2xl text-red-300 mb-2"><i className="fas fa-exclamation-triangle"></i></div>
-                    <p className="text-white font-bold mb-1">无法加载模型</p>
-                    <p className="text-gray-300 text-xs mb-3">404 未找到或格式错误。</p>
-                    <div className="text-gray-400 text-[10px] text-left space-y-1 bg-black/30 p-2 rounded">
-                        <p>1. 如果使用本地文件，请将其放入 <span className="text-yellow-300 font-mono">public</span> 文件夹。</p>
-                        <p>2. 或者使用 "上传模型" 按钮手动选择文件。</p>
-                    </div>
-                </div>
-            </Html>
-          }
-        >
-          <Suspense fallback={<Loader />}>
-            {modelUrl && (
-              <group position={[-0.4, -0.8, 0]}>
-                 <group scale={0.9}>
-                    <Avatar 
-                      key={modelUrl}
-                      url={modelUrl} 
-                      audioLevel={audioLevel} 
-                      onControlsReady={onAvatarReady} 
-                      isDebuggingBones={isDebuggingBones}
-                    />
-                 </group>
-              </group>
-            )}
-          </Suspense>
-        </AvatarErrorBoundary>
+        {children}
         
         <ContactShadows resolution={1024} scale={10} blur={1} opacity={0.7} far={10} color="#000000" position={[0, -0.8, 0]} />
         
+        {/* The default controls, so state.controls can move the camera, e.g. for script camera cues */}
         <OrbitControls 
-            target={[-0.4, 0.3, 0]} 
+            makeDefault
+            target={target} 
             minPolarAngle={Math.PI / 4} 
             maxPolarAngle={Math.PI / 1.8}
             minDistance={1.5}
@@ -164,4 +218,4 @@ export const Scene: React.FC<SceneProps> = ({ modelUrl, background, audioLevel,
       </Canvas>
     </div>
   );
-};
\ No newline at end of file
+};
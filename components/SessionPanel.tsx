@@ -0,0 +1,129 @@
+import React, { useRef, useState } from 'react';
+import { ConversationSession } from '../types';
+import { exportSessionJson, exportSessionMarkdown, parseSession } from '../services/conversations';
+
+interface SessionPanelProps {
+  sessions: ConversationSession[];
+  current: ConversationSession | null; // may not be saved yet, while it has no messages
+  modelName?: string; // how the avatar is called in Markdown exports
+  onSelect: (session: ConversationSession) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (session: ConversationSession) => void;
+  onClose: () => void;
+}
+
+function download(text: string, name: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  // Firefox and Safari drop the download if the URL is revoked during the click
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export const SessionPanel: React.FC<SessionPanelProps> = ({ sessions, current, modelName, onSelect, onCreate, onRename, onDelete, onImport, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string, title: string } | null>(null);
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(parseSession(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const commitRename = () => {
+    if (editing?.title.trim()) onRename(editing.id, editing.title.trim());
+    setEditing(null);
+  };
+
+  const handleDelete = (session: ConversationSession) => {
+    if (window.confirm(`删除会话「${session.title}」？`)) onDelete(session.id);
+  };
+
+  return (
+    <div className="absolute top-full left-0 mt-2 bg-gray-900/95 backdrop-blur-md rounded-xl border border-gray-700 w-72 shadow-2xl z-50 flex flex-col max-h-[70vh]">
+      <div className="flex justify-between items-center p-4 border-b border-gray-800 flex-shrink-0">
+        <h4 className="text-xs font-bold text-gray-300 uppercase tracking-wider">会话</h4>
+        <div className="flex items-center gap-3">
+          <button onClick={onCreate} className="text-gray-400 hover:text-white text-xs" title="新建会话"><i className="fas fa-plus"></i></button>
+          <button onClick={onClose} className="text-gray-500 hover:text-white"><i className="fas fa-times"></i></button>
+        </div>
+      </div>
+
+      <div className="overflow-y-auto p-4 space-y-2 custom-scrollbar">
+          {sessions.length === 0 && <p className="text-xs text-gray-500">还没有保存的会话。</p>}
+          {sessions.map(session => (
+            <div
+              key={session.id}
+              className={`group p-2 rounded-lg border transition-all ${session.id === current?.id ? 'bg-blue-900/40 border-blue-500' : 'bg-gray-800 hover:bg-gray-700 border-gray-700'}`}
+            >
+              {editing?.id === session.id ? (
+                <input
+                  autoFocus
+                  value={editing.title}
+                  onChange={(e) => setEditing({ id: session.id, title: e.target.value })}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditing(null);
+                  }}
+                  className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-white focus:outline-none"
+                />
+              ) : (
+                <div className="flex justify-between items-center gap-2">
+                  <button onClick={() => onSelect(session)} className="flex-1 text-left min-w-0">
+                    <span className="block text-sm font-medium text-white truncate">{session.title}</span>
+                    <span className="text-[10px] font-mono text-gray-400">{session.updatedAt.toLocaleString('zh-CN')} · {session.messages.length} 条</span>
+                  </button>
+                  <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => setEditing({ id: session.id, title: session.title })} className="text-gray-400 hover:text-white text-xs" title="重命名"><i className="fas fa-pen"></i></button>
+                    <button onClick={() => handleDelete(session)} className="text-gray-400 hover:text-red-400 text-xs" title="删除"><i className="fas fa-trash"></i></button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {error && (
+            <div className="p-2 bg-red-900/30 border border-red-700 rounded-md text-xs text-red-200">
+              <i className="fas fa-exclamation-triangle mr-2"></i>{error}
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex-1 py-2 bg-gray-800 hover:bg-gray-700 rounded text-xs border border-gray-700 text-gray-300 transition-colors"
+              >
+                <i className="fas fa-file-import mr-1"></i> 导入
+                <input type="file" ref={fileInputRef} className="hidden" accept=".json,application/json" onChange={handleFileUpload} />
+              </button>
+              <button
+                onClick={() => current && download(exportSessionJson(current), `${current.id}.json`, 'application/json')}
+                disabled={!current?.messages.length}
+                className="flex-1 py-2 bg-gray-800 hover:bg-gray-700 rounded text-xs border border-gray-700 text-gray-300 transition-colors disabled:opacity-50"
+              >
+                <i className="fas fa-file-code mr-1"></i> JSON
+              </button>
+              <button
+                onClick={() => current && download(exportSessionMarkdown(current, { user: '用户', model: modelName || '数字人' }), `${current.id}.md`, 'text/markdown')}
+                disabled={!current?.messages.length}
+                className="flex-1 py-2 bg-gray-800 hover:bg-gray-700 rounded text-xs border border-gray-700 text-gray-300 transition-colors disabled:opacity-50"
+              >
+                <i className="fas fa-file-alt mr-1"></i> Markdown
+              </button>
+          </div>
+      </div>
+    </div>
+  );
+};
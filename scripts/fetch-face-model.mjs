@@ -0,0 +1,29 @@
+// Downloads the MediaPipe face landmarker model into public/models/, where the app serves it from,
+// so face tracking needs no network at runtime. MediaPipe only publishes the model on its own
+// storage, not on npm. Run it once with `npm run fetch-face-model` and commit the file.
+import { existsSync } from 'node:fs';
+import { mkdir, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task';
+const target = path.resolve(import.meta.dirname, '../public/models/face_landmarker.task');
+
+if (existsSync(target)) {
+  console.log(`${path.relative(process.cwd(), target)} is already there.`);
+  process.exit(0);
+}
+
+try {
+  const response = await fetch(MODEL_URL, { signal: AbortSignal.timeout(60_000) });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const data = Buffer.from(await response.arrayBuffer());
+  await mkdir(path.dirname(target), { recursive: true });
+  // Written next to the target first, so an interrupted download never looks complete
+  await writeFile(`${target}.partial`, data);
+  await rename(`${target}.partial`, target);
+  console.log(`Downloaded the face landmarker model to ${path.relative(process.cwd(), target)}. Commit it, so the app ships with it.`);
+} catch (error) {
+  console.error(`Could not download the face landmarker model: ${error.message}`);
+  console.error(`Face tracking won't start until ${MODEL_URL} is saved as public/models/face_landmarker.task.`);
+  process.exit(1);
+}
@@ -0,0 +1,41 @@
+import { existsSync } from 'node:fs';
+import { AddressInfo } from 'node:net';
+import { DEFAULT_LIVE_MODELS, DEFAULT_MODELS, GEMINI_API_URL, createProxyServer } from './proxy.js';
+import { createStubUpstream } from './stubUpstream.js';
+
+// The same file the Vite dev server reads; variables already set in the environment win
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const env = process.env;
+const useStub = process.argv.includes('--stub');
+
+let apiKey = env.GEMINI_API_KEY || '';
+let upstreamUrl = env.UPSTREAM_URL || GEMINI_API_URL;
+if (useStub) {
+  apiKey = 'stub-key';
+  const stub = createStubUpstream(apiKey);
+  await new Promise<void>(resolve => stub.listen(0, '127.0.0.1', resolve));
+  upstreamUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+}
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local, or run with --stub to use the stub upstream.');
+  process.exit(1);
+}
+
+const perMinute = Number(env.RATE_LIMIT_PER_MINUTE) || 60;
+const list = (value: string | undefined, fallback: string[]) => value ? value.split(',').map(item => item.trim()).filter(Boolean) : fallback;
+const server = createProxyServer({
+  apiKey,
+  upstreamUrl,
+  allowedOrigins: list(env.ALLOWED_ORIGINS, ['http://localhost:3000']),
+  rateLimit: { capacity: Number(env.RATE_LIMIT_BURST) || perMinute, refillPerSecond: perMinute / 60 },
+  trustProxy: env.TRUST_PROXY === 'true',
+  liveTokenTtlSeconds: Number(env.LIVE_TOKEN_TTL_SECONDS) || undefined,
+  models: list(env.ALLOWED_MODELS, DEFAULT_MODELS),
+  liveModels: list(env.LIVE_MODELS, DEFAULT_LIVE_MODELS),
+});
+
+const port = Number(env.PORT) || 8787;
+server.listen(port, () => {
+  console.log(`Gemini proxy listening on http://localhost:${port}${useStub ? ` (stub upstream at ${upstreamUrl})` : ''}`);
+});
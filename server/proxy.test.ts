@@ -0,0 +1,137 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { DEFAULT_LIVE_MODELS, DEFAULT_MODELS, ProxyOptions, createProxyServer } from './proxy.js';
+import { createStubUpstream } from './stubUpstream.js';
+
+const API_KEY = 'server-key';
+const ORIGIN = 'http://localhost:3000';
+const servers: http.Server[] = [];
+
+async function listen(server: http.Server): Promise<string> {
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+async function startProxy(options: Partial<ProxyOptions> = {}, upstream = createStubUpstream(API_KEY)): Promise<string> {
+  const upstreamUrl = await listen(upstream);
+  return listen(createProxyServer({
+    apiKey: API_KEY,
+    upstreamUrl,
+    allowedOrigins: [ORIGIN],
+    rateLimit: { capacity: 100, refillPerSecond: 100 },
+    ...options,
+  }));
+}
+
+const generate = (proxyUrl: string, model: string, headers: Record<string, string> = {}) =>
+  fetch(`${proxyUrl}/api/gemini/v1beta/models/${model}:generateContent`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify({ contents: [{ role: 'user', parts: [{ text: '你好' }] }] }),
+  });
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(server => new Promise(resolve => {
+    server.closeAllConnections();
+    server.close(resolve);
+  })));
+});
+
+describe('createProxyServer', () => {
+  it('forwards allowed model calls with the server key in place of the client one', async () => {
+    const proxyUrl = await startProxy();
+    const response = await generate(proxyUrl, 'gemini-2.5-flash', { 'x-goog-api-key': 'client-key' });
+    expect(response.status).toBe(200);
+    expect(JSON.stringify(await response.json())).toContain('收到：你好');
+  });
+
+  it('streams replies through', async () => {
+    const proxyUrl = await startProxy();
+    const response = await fetch(`${proxyUrl}/api/gemini/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse`, {
+      method: 'POST',
+      body: JSON.stringify({ contents: [{ role: 'user', parts: [{ text: '你好' }] }] }),
+    });
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect((await response.text()).split('\n\n').filter(Boolean).length).toBeGreaterThan(1);
+  });
+
+  it('refuses models and endpoints outside the allowlist', async () => {
+    const proxyUrl = await startProxy();
+    expect((await generate(proxyUrl, 'gemini-2.5-pro')).status).toBe(403);
+    expect((await fetch(`${proxyUrl}/api/gemini/v1beta/files`, { method: 'POST' })).status).toBe(404);
+  });
+
+  it('forwards exactly the default models and mints Live tokens for the default Live models only', async () => {
+    const proxyUrl = await startProxy();
+    for (const model of DEFAULT_MODELS) expect((await generate(proxyUrl, model)).status).toBe(200);
+    // A Live model isn't a text model, and the other way round
+    expect((await generate(proxyUrl, DEFAULT_LIVE_MODELS[0])).status).toBe(403);
+
+    const mint = (model: string) => fetch(`${proxyUrl}/api/live-token`, { method: 'POST', body: JSON.stringify({ model }) });
+    expect((await mint(DEFAULT_LIVE_MODELS[0])).status).toBe(200);
+    const refused = await mint(DEFAULT_MODELS[0]);
+    expect(refused.status).toBe(403);
+    expect(JSON.stringify(await refused.json())).toContain('Model not allowed');
+  });
+
+  it('only answers the allowed origins', async () => {
+    const proxyUrl = await startProxy();
+    const allowed = await generate(proxyUrl, 'gemini-2.5-flash', { origin: ORIGIN });
+    expect(allowed.headers.get('access-control-allow-origin')).toBe(ORIGIN);
+
+    const foreign = await generate(proxyUrl, 'gemini-2.5-flash', { origin: 'https://evil.example' });
+    expect(foreign.status).toBe(403);
+    expect(foreign.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('rate limits each client', async () => {
+    const proxyUrl = await startProxy({ rateLimit: { capacity: 2, refillPerSecond: 0.1 } });
+    expect((await generate(proxyUrl, 'gemini-2.5-flash')).status).toBe(200);
+    expect((await generate(proxyUrl, 'gemini-2.5-flash')).status).toBe(200);
+    const limited = await generate(proxyUrl, 'gemini-2.5-flash');
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+    // Live tokens come out of the same bucket
+    expect((await fetch(`${proxyUrl}/api/live-token`, { method: 'POST', body: '{}' })).status).toBe(429);
+  });
+
+  it('keeps a bucket per forwarded address only behind a trusted proxy', async () => {
+    const rateLimit = { capacity: 1, refillPerSecond: 0.1 };
+    const trusted = await startProxy({ rateLimit, trustProxy: true });
+    expect((await generate(trusted, 'gemini-2.5-flash', { 'x-forwarded-for': '203.0.113.1' })).status).toBe(200);
+    expect((await generate(trusted, 'gemini-2.5-flash', { 'x-forwarded-for': '203.0.113.1' })).status).toBe(429);
+    expect((await generate(trusted, 'gemini-2.5-flash', { 'x-forwarded-for': '203.0.113.2, 10.0.0.1' })).status).toBe(200);
+
+    // Otherwise the header is the client's to make up, so it can't buy a fresh bucket
+    const direct = await startProxy({ rateLimit });
+    expect((await generate(direct, 'gemini-2.5-flash', { 'x-forwarded-for': '203.0.113.1' })).status).toBe(200);
+    expect((await generate(direct, 'gemini-2.5-flash', { 'x-forwarded-for': '203.0.113.2' })).status).toBe(429);
+  });
+
+  it('locks Live tokens to an allowed model', async () => {
+    const tokenRequests: any[] = [];
+    const upstream = http.createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk);
+      tokenRequests.push(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ name: 'auth_tokens/test' }));
+    });
+    const proxyUrl = await startProxy({ liveModels: ['live-model'] }, upstream);
+    const mint = (body: unknown) => fetch(`${proxyUrl}/api/live-token`, { method: 'POST', body: JSON.stringify(body) });
+
+    const response = await mint({});
+    expect(await response.json()).toMatchObject({ token: 'auth_tokens/test' });
+    expect(tokenRequests[0].uses).toBe(1);
+    expect(tokenRequests[0].bidiGenerateContentSetup).toMatchObject({
+      model: 'models/live-model',
+      generationConfig: { responseModalities: ['AUDIO'] },
+    });
+    expect(tokenRequests[0].fieldMask).toContain('generationConfig.responseModalities');
+
+    expect((await mint({ model: 'gemini-2.5-pro' })).status).toBe(403);
+    expect(tokenRequests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,212 @@
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import type { ReadableStream } from 'node:stream/web';
+import { ApiError, GoogleGenAI, Modality } from '@google/genai';
+import { RateLimiter } from './rateLimiter.js';
+
+export const GEMINI_API_URL = 'https://generativelanguage.googleapis.com';
+// The models the app uses by default; personas with other models need them added to the lists
+export const DEFAULT_MODELS = ['gemini-2.5-flash', 'gemini-2.5-flash-preview-tts'];
+export const DEFAULT_LIVE_MODELS = ['gemini-2.5-flash-native-audio-preview-09-2025'];
+
+export interface ProxyOptions {
+  apiKey: string;
+  upstreamUrl?: string; // defaults to the Gemini API, the stub upstream in tests
+  allowedOrigins: string[]; // browser origins that may call the proxy, '*' for any
+  rateLimit: { capacity: number, refillPerSecond: number }; // per client
+  trustProxy?: boolean; // identify clients by X-Forwarded-For, when running behind a reverse proxy
+  liveTokenTtlSeconds?: number;
+  models?: string[]; // text and TTS models that calls are forwarded for, defaults to DEFAULT_MODELS
+  liveModels?: string[]; // models Live tokens are minted for, the first when the client names none
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+// Live sessions must be opened this soon after the token is handed out
+const LIVE_TOKEN_START_SECONDS = 60;
+const DEFAULT_LIVE_TOKEN_TTL_SECONDS = 30 * 60;
+// Only the calls the app makes are forwarded; the rest of what the key can do (files, caches, tuning...) stays closed
+const MODEL_CALL = /^\/(v1|v1beta|v1alpha)\/models\/([\w.-]+):(generateContent|streamGenerateContent)$/;
+
+class HttpError extends Error {
+  status: number;
+  headers: Record<string, string>;
+
+  constructor(status: number, message: string, headers: Record<string, string> = {}) {
+    super(message);
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+const STATUS_NAMES: Record<number, string> = {
+  400: 'INVALID_ARGUMENT',
+  403: 'PERMISSION_DENIED',
+  404: 'NOT_FOUND',
+  413: 'INVALID_ARGUMENT',
+  429: 'RESOURCE_EXHAUSTED',
+  502: 'UNAVAILABLE',
+};
+
+// Errors use the Gemini API's shape, so the SDK on the client reports them like upstream ones
+function sendError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'content-type': 'application/json', ...headers });
+  res.end(JSON.stringify({ error: { code: status, message, status: STATUS_NAMES[status] || 'UNKNOWN' } }));
+}
+
+function sendJson(res: ServerResponse, body: unknown) {
+  res.writeHead(200, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large.');
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const body = (await readBody(req)).toString('utf8');
+  try {
+    const json = JSON.parse(body || '{}');
+    if (json && typeof json === 'object' && !Array.isArray(json)) return json;
+  } catch {
+    // not JSON, answered with a 400 below
+  }
+  throw new HttpError(400, 'Request body must be a JSON object.');
+}
+
+function getClientAddress(req: IncomingMessage, trustProxy?: boolean): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return (trustProxy && first) || req.socket.remoteAddress || 'unknown';
+}
+
+/**
+ * The backend the browser talks to instead of the Gemini API, so the API key stays on the server.
+ *
+ * - `POST /api/gemini/<version>/models/<model>:generateContent` and `:streamGenerateContent` are
+ *   forwarded upstream with the server's key, for the allowed models only; point the SDK's
+ *   `httpOptions.baseUrl` at `/api/gemini`.
+ * - `POST /api/live-token` with `{ model? }` mints a single-use ephemeral token for one Live API
+ *   session, since the Live websocket can't go through a plain HTTP proxy. The token only opens
+ *   sessions with that model and the app's audio settings.
+ * - `GET /api/health` for load balancers.
+ *
+ * Both API routes are rate limited per client address.
+ */
+export function createProxyServer(options: ProxyOptions): http.Server {
+  const upstreamUrl = (options.upstreamUrl || GEMINI_API_URL).replace(/\/$/, '');
+  const ai = new GoogleGenAI({ apiKey: options.apiKey, httpOptions: { baseUrl: upstreamUrl } });
+  const limiter = new RateLimiter(options.rateLimit.capacity, options.rateLimit.refillPerSecond);
+  const allowAnyOrigin = options.allowedOrigins.includes('*');
+  const models = options.models || DEFAULT_MODELS;
+  const liveModels = options.liveModels || DEFAULT_LIVE_MODELS;
+
+  const applyCors = (req: IncomingMessage, res: ServerResponse): boolean => {
+    const origin = req.headers.origin;
+    if (!origin) return true; // not a browser, or same-origin
+    if (!allowAnyOrigin && !options.allowedOrigins.includes(origin)) return false;
+    res.setHeader('access-control-allow-origin', origin);
+    res.setHeader('vary', 'origin');
+    return true;
+  };
+
+  const mintLiveToken = async (req: IncomingMessage, res: ServerResponse) => {
+    const { model = liveModels[0] } = await readJson(req);
+    if (typeof model !== 'string' || !liveModels.includes(model)) throw new HttpError(403, `Model not allowed: ${model}`);
+    const now = Date.now();
+    const expireTime = new Date(now + (options.liveTokenTtlSeconds || DEFAULT_LIVE_TOKEN_TTL_SECONDS) * 1000).toISOString();
+    const token = await ai.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime,
+        newSessionExpireTime: new Date(now + LIVE_TOKEN_START_SECONDS * 1000).toISOString(),
+        liveConnectConstraints: {
+          model,
+          config: { responseModalities: [Modality.AUDIO], inputAudioTranscription: {}, outputAudioTranscription: {} },
+        },
+        // Locks just the fields above, so the voice, instructions and tools still come from the session
+        lockAdditionalFields: [],
+        httpOptions: { apiVersion: 'v1alpha' },
+      },
+    });
+    sendJson(res, { token: token.name, expireTime });
+  };
+
+  const forwardModelCall = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const path = url.pathname.slice('/api/gemini'.length);
+    const model = path.match(MODEL_CALL)?.[2];
+    if (!model) throw new HttpError(404, `Not proxied: ${path}`);
+    if (!models.includes(model)) throw new HttpError(403, `Model not allowed: ${model}`);
+    const body = await readBody(req);
+
+    // Abort the upstream call when the browser goes away, e.g. a cancelled stream
+    const abort = new AbortController();
+    res.on('close', () => abort.abort());
+    const alt = url.searchParams.get('alt');
+    const upstream = await fetch(`${upstreamUrl}${path}${alt ? `?alt=${encodeURIComponent(alt)}` : ''}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-goog-api-key': options.apiKey },
+      body,
+      signal: abort.signal,
+    });
+    res.writeHead(upstream.status, { 'content-type': upstream.headers.get('content-type') || 'application/json' });
+    if (!upstream.body) {
+      res.end();
+      return;
+    }
+    // Stream through as it arrives, so streamed replies stay incremental
+    Readable.fromWeb(upstream.body as ReadableStream<Uint8Array>).on('error', () => res.destroy()).pipe(res);
+  };
+
+  const pruneTimer = setInterval(() => limiter.prune(), 60_000);
+  pruneTimer.unref();
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    try {
+      if (!applyCors(req, res)) throw new HttpError(403, 'Origin not allowed.');
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204, {
+          'access-control-allow-methods': 'GET, POST, OPTIONS',
+          'access-control-allow-headers': req.headers['access-control-request-headers'] || 'content-type',
+          'access-control-max-age': '600',
+        });
+        res.end();
+        return;
+      }
+      if (req.method === 'GET' && url.pathname === '/api/health') {
+        sendJson(res, { ok: true });
+        return;
+      }
+
+      const isLiveToken = url.pathname === '/api/live-token';
+      if (req.method !== 'POST' || (!isLiveToken && !url.pathname.startsWith('/api/gemini/'))) {
+        throw new HttpError(404, 'Not found.');
+      }
+      const retryAfter = limiter.take(getClientAddress(req, options.trustProxy));
+      if (retryAfter > 0) throw new HttpError(429, 'Too many requests.', { 'retry-after': String(retryAfter) });
+
+      if (isLiveToken) await mintLiveToken(req, res);
+      else await forwardModelCall(req, res, url);
+    } catch (error) {
+      if (res.headersSent) {
+        res.destroy();
+      } else if (error instanceof HttpError) {
+        sendError(res, error.status, error.message, error.headers);
+      } else if (error instanceof ApiError) {
+        sendError(res, error.status, error.message);
+      } else {
+        console.error(`${req.method} ${url.pathname} failed:`, error);
+        sendError(res, 502, 'Upstream request failed.');
+      }
+    }
+  });
+  server.on('close', () => clearInterval(pruneTimer));
+  return server;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimiter } from './rateLimiter.js';
+
+describe('RateLimiter', () => {
+  it('allows a burst of capacity requests, then says how long to wait', () => {
+    const limiter = new RateLimiter(3, 0.5);
+    expect([limiter.take('a', 0), limiter.take('a', 0), limiter.take('a', 0)]).toEqual([0, 0, 0]);
+    expect(limiter.take('a', 0)).toBe(2);
+    // Refused requests don't cost anything
+    expect(limiter.take('a', 500)).toBe(2);
+  });
+
+  it('refills over time, up to the capacity', () => {
+    const limiter = new RateLimiter(2, 1);
+    limiter.take('a', 0);
+    limiter.take('a', 0);
+    expect(limiter.take('a', 400)).toBe(1);
+    expect(limiter.take('a', 1000)).toBe(0);
+    expect(limiter.take('a', 1000)).toBe(1);
+    // A long pause earns no more than a full bucket
+    expect([limiter.take('a', 60_000), limiter.take('a', 60_000), limiter.take('a', 60_000)]).toEqual([0, 0, 1]);
+  });
+
+  it('keeps a bucket per client', () => {
+    const limiter = new RateLimiter(1, 0.1);
+    expect(limiter.take('a', 0)).toBe(0);
+    expect(limiter.take('a', 0)).toBeGreaterThan(0);
+    expect(limiter.take('b', 0)).toBe(0);
+  });
+
+  it('forgets clients only once their bucket is full again', () => {
+    const limiter = new RateLimiter(1, 1);
+    limiter.take('a', 0);
+    limiter.prune(500);
+    expect(limiter.take('a', 500)).toBe(1);
+    limiter.prune(1000);
+    expect(limiter.take('a', 1000)).toBe(0);
+  });
+});
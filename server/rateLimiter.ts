@@ -0,0 +1,46 @@
+interface Bucket {
+  tokens: number;
+  updatedAt: number; // ms
+}
+
+/**
+ * Per-client token buckets. A client can make `capacity` requests in a burst, then
+ * `refillPerSecond` more every second.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private capacity: number;
+  private refillPerSecond: number;
+
+  constructor(capacity: number, refillPerSecond: number) {
+    this.capacity = capacity;
+    this.refillPerSecond = refillPerSecond;
+  }
+
+  private refill(bucket: Bucket, now: number) {
+    return Math.min(this.capacity, bucket.tokens + (now - bucket.updatedAt) / 1000 * this.refillPerSecond);
+  }
+
+  /**
+   * Spends one request from the client's bucket. Returns 0 when the request is allowed, otherwise
+   * the number of seconds until it would be.
+   */
+  take(client: string, now = Date.now()): number {
+    const bucket = this.buckets.get(client);
+    const tokens = bucket ? this.refill(bucket, now) : this.capacity;
+    if (tokens < 1) {
+      return Math.ceil((1 - tokens) / this.refillPerSecond);
+    }
+    this.buckets.set(client, { tokens: tokens - 1, updatedAt: now });
+    return 0;
+  }
+
+  /**
+   * Forgets clients whose buckets are full again, so the map doesn't grow with every address seen.
+   */
+  prune(now = Date.now()) {
+    for (const [client, bucket] of this.buckets) {
+      if (this.refill(bucket, now) >= this.capacity) this.buckets.delete(client);
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+
+const SAMPLE_RATE = 24000;
+const TONE_SECONDS = 0.6;
+
+// A short fading tone as 16-bit mono PCM, so TTS through the stub still drives the lip sync
+function createTone(): string {
+  const samples = new Int16Array(Math.round(SAMPLE_RATE * TONE_SECONDS));
+  for (let i = 0; i < samples.length; i++) {
+    const fade = 1 - i / samples.length;
+    samples[i] = Math.round(Math.sin(2 * Math.PI * 220 * i / SAMPLE_RATE) * fade * 8000);
+  }
+  return Buffer.from(samples.buffer).toString('base64');
+}
+
+async function readJson(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const textResponse = (text: string) => ({
+  candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }],
+});
+
+/**
+ * A stand-in for the Gemini REST API, for running the proxy and the app without a real key or
+ * network access. Text calls echo the last user message, TTS calls return a tone, and token
+ * requests return made-up `auth_tokens/stub-N` names. Requests without the expected key are
+ * rejected, so it also checks that the proxy adds the key.
+ */
+export function createStubUpstream(apiKey: string): http.Server {
+  const tone = createTone();
+  let tokenCount = 0;
+
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (req.headers['x-goog-api-key'] !== apiKey) {
+      send(res, 401, { error: { code: 401, message: 'API key not valid.', status: 'UNAUTHENTICATED' } });
+      return;
+    }
+    const body = await readJson(req);
+
+    if (req.method === 'POST' && url.pathname === '/v1alpha/auth_tokens') {
+      send(res, 200, { name: `auth_tokens/stub-${++tokenCount}` });
+      return;
+    }
+
+    const call = url.pathname.match(/^\/v1\w*\/models\/[\w.-]+:(generateContent|streamGenerateContent)$/)?.[1];
+    if (req.method !== 'POST' || !call) {
+      send(res, 404, { error: { code: 404, message: `Stub has no ${url.pathname}.`, status: 'NOT_FOUND' } });
+      return;
+    }
+
+    if (body.generationConfig?.responseModalities?.includes('AUDIO')) {
+      send(res, 200, {
+        candidates: [{ content: { role: 'model', parts: [{ inlineData: { mimeType: `audio/L16;rate=${SAMPLE_RATE}`, data: tone } }] }, finishReason: 'STOP' }],
+      });
+      return;
+    }
+
+    const lastUser = [...(body.contents || [])].reverse().find((c: any) => c.role === 'user');
+    const said = (lastUser?.parts || []).map((p: any) => p.text || '').join('');
+    const reply = `（测试回复）收到：${said}`;
+    if (call === 'generateContent') {
+      send(res, 200, textResponse(reply));
+      return;
+    }
+
+    // Server-sent events, a few characters per chunk like a real stream
+    res.writeHead(200, { 'content-type': 'text/event-stream' });
+    for (let i = 0; i < reply.length; i += 6) {
+      res.write(`data: ${JSON.stringify(textResponse(reply.slice(i, i + 6)))}\n\n`);
+    }
+    res.end();
+  });
+}
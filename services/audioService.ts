@@ -0,0 +1,401 @@
+import { InterruptPolicy, UtteranceEndReason, UtteranceEvent, UtteranceOptions, UtterancePriority, VisemeWeights, WordTiming } from '../types';
+import { decode, decodeAudioData } from './audioUtils';
+import { ANALYSER_FFT_SIZE, ANALYSER_SMOOTHING, VisemeEngine, createSilentVisemes } from './visemeEngine';
+import { SynthesisOptions, SynthesisResult, TtsProvider } from './providers';
+
+const SILENT_VISEMES = createSilentVisemes();
+// TTS and live replies arrive as 16-bit mono PCM at this rate
+export const OUTPUT_SAMPLE_RATE = 24000;
+const PRIORITY_RANK: Record<UtterancePriority, number> = { low: 0, normal: 1, high: 2 };
+
+export interface AudioOutputOptions {
+  voiceName?: string; // passed to the TTS provider
+  ttsModel?: string;
+  pan?: number; // stereo position from -1 (left) to 1 (right), so several avatars can be told apart
+}
+
+interface Utterance {
+  id: string;
+  text?: string;
+  translation?: string;
+  words?: WordTiming[];
+  rank: number;
+  order: number; // FIFO among equal priorities
+  isStream: boolean;
+  // Pending base64 PCM in playback order; a text utterance has a single synthesized chunk
+  chunks: Promise<string | null>[];
+  isInputClosed: boolean; // no more chunks will be appended
+  isPumping: boolean;
+  hasFailed: boolean;
+  sources: Set<AudioBufferSourceNode>;
+  startTime: number | null; // audio clock time of the first scheduled chunk
+  durationMs: number;
+  hasStarted: boolean;
+  resolve: () => void;
+  ended: Promise<void>;
+}
+
+/**
+ * Plays utterances (synthesized text or streamed PCM) one at a time through a single analysed
+ * output, so lip sync follows whatever is audible. Utterances wait in a priority queue and
+ * report queued/started/progress/ended events, which captions and kiosk announcements key off.
+ */
+export class AudioService {
+  private tts: TtsProvider;
+  private outputAudioContext: AudioContext | null = null;
+  private analyzer: AnalyserNode | null = null;
+  private outputNode: GainNode | null = null;
+  private panner: StereoPannerNode | null = null;
+  private recordingDestination: MediaStreamAudioDestinationNode | null = null;
+  private nextStartTime = 0;
+  private current: Utterance | null = null;
+  private queue: Utterance[] = [];
+  private utteranceCount = 0;
+  private isPlaying = false;
+  private onVisemesChange: (visemes: VisemeWeights, level: number) => void;
+  private onPlayingChange: (isPlaying: boolean) => void;
+  private onUtteranceEvent: (event: UtteranceEvent) => void;
+  private visemeEngine = new VisemeEngine();
+  private isAnalysisLoopRunning = false;
+  private isDisposed = false;
+  private output: AudioOutputOptions;
+
+  constructor(
+    tts: TtsProvider,
+    onVisemesChange: (visemes: VisemeWeights, level: number) => void,
+    onPlayingChange: (isPlaying: boolean) => void = () => {},
+    onUtteranceEvent: (event: UtteranceEvent) => void = () => {},
+    output: AudioOutputOptions = {}
+  ) {
+    this.tts = tts;
+    this.onVisemesChange = onVisemesChange;
+    this.onPlayingChange = onPlayingChange;
+    this.onUtteranceEvent = onUtteranceEvent;
+    this.output = output;
+  }
+
+  private async initializeAudioContext() {
+    if (!this.outputAudioContext) {
+      this.outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
+      this.analyzer = this.outputAudioContext.createAnalyser();
+      this.analyzer.fftSize = ANALYSER_FFT_SIZE;
+      this.analyzer.smoothingTimeConstant = ANALYSER_SMOOTHING;
+      this.outputNode = this.outputAudioContext.createGain();
+      this.outputNode.connect(this.analyzer);
+      // Panning comes after the analyser, which sees the dry mono signal
+      this.panner = this.outputAudioContext.createStereoPanner();
+      this.panner.pan.value = this.output.pan ?? 0;
+      this.analyzer.connect(this.panner);
+      this.panner.connect(this.outputAudioContext.destination);
+      if (!this.isAnalysisLoopRunning) {
+        this.startAnalysisLoop();
+      }
+    }
+    if (this.outputAudioContext.state === 'suspended') {
+      await this.outputAudioContext.resume();
+    }
+  }
+
+  /**
+   * Queues text to be synthesized and spoken. Synthesis starts immediately, so consecutive
+   * sentences are fetched in parallel while playback keeps them in order.
+   * Resolves once the utterance has finished playing, was cancelled or failed.
+   */
+  speak(text: string, options: UtteranceOptions = {}): Promise<void> {
+    const utterance = this.createUtterance(options, false, text);
+    const synthesisOptions: SynthesisOptions = { voiceName: this.output.voiceName, model: this.output.ttsModel };
+    const synthesis: Promise<SynthesisResult | null> = this.tts.synthesizeWithTimings
+      ? this.tts.synthesizeWithTimings(text, synthesisOptions)
+      : this.tts.synthesize(text, synthesisOptions).then(audio => audio ? { audio } : null);
+    utterance.chunks.push(synthesis.then((result) => {
+      utterance.words = result?.words;
+      return result?.audio ?? null;
+    }).catch((e) => {
+      console.warn("TTS generation failed.", e);
+      return null;
+    }));
+    utterance.isInputClosed = true;
+    this.enqueue(utterance, options.interrupt || 'queue');
+    return utterance.ended;
+  }
+
+  /**
+   * Appends raw PCM (base64, 24kHz 16-bit mono) to an audio stream, e.g. from a live voice API.
+   * Chunks go to the open stream with `options.id`, or the most recent open stream when no id
+   * is given; a new stream is queued when there is none. A stream that runs dry counts as
+   * finished, so chunks arriving after that start a new utterance.
+   * Resolves when the stream the chunk belongs to has ended.
+   */
+  appendAudio(base64Audio: string, options: UtteranceOptions = {}): Promise<void> {
+    let utterance = this.findOpenStream(options.id);
+    if (!utterance) {
+      utterance = this.createUtterance(options, true);
+      utterance.chunks.push(Promise.resolve(base64Audio));
+      this.enqueue(utterance, options.interrupt || 'queue');
+    } else {
+      if (options.text !== undefined) utterance.text = options.text;
+      utterance.chunks.push(Promise.resolve(base64Audio));
+      if (utterance === this.current) this.pump(utterance);
+    }
+    return utterance.ended;
+  }
+
+  /**
+   * Updates the caption text of an open stream (the most recent one when no id is given),
+   * e.g. as a live transcript grows. Returns false when there is no such stream.
+   */
+  setStreamText(text: string, id?: string): boolean {
+    const utterance = this.findOpenStream(id);
+    if (!utterance) return false;
+    utterance.text = text;
+    return true;
+  }
+
+  /**
+   * Cancels one utterance, whether it is playing or still queued. Returns false for unknown ids.
+   */
+  cancel(id: string): boolean {
+    if (this.current?.id === id) {
+      this.finish(this.current, 'cancelled');
+      return true;
+    }
+    const utterance = this.queue.find(u => u.id === id);
+    if (!utterance) return false;
+    this.finish(utterance, 'cancelled');
+    return true;
+  }
+
+  /**
+   * Immediately silences the avatar: cancels the playing utterance and everything queued behind it.
+   */
+  stop() {
+    this.cancelAll('cancelled');
+    this.visemeEngine.reset();
+    this.onVisemesChange(SILENT_VISEMES, 0);
+  }
+
+  /**
+   * The audio as it is heard, for recording alongside the canvas.
+   */
+  async getRecordingStream(): Promise<MediaStream> {
+    await this.initializeAudioContext();
+    if (!this.recordingDestination) {
+      this.recordingDestination = this.outputAudioContext!.createMediaStreamDestination();
+      this.panner!.connect(this.recordingDestination);
+    }
+    return this.recordingDestination.stream;
+  }
+
+  /**
+   * Stops everything and releases the audio context. The service can't be used afterwards.
+   */
+  dispose() {
+    this.cancelAll('cancelled');
+    this.isDisposed = true;
+    this.outputAudioContext?.close();
+    this.outputAudioContext = null;
+    this.analyzer = null;
+    this.outputNode = null;
+    this.panner = null;
+    this.recordingDestination = null;
+  }
+
+  private findOpenStream(id?: string): Utterance | undefined {
+    const candidates = this.current ? [this.current, ...this.queue] : this.queue;
+    return candidates.filter(u => u.isStream && !u.isInputClosed && (!id || u.id === id)).pop();
+  }
+
+  private createUtterance(options: UtteranceOptions, isStream: boolean, text = options.text): Utterance {
+    this.utteranceCount++;
+    let resolve: () => void = () => {};
+    const ended = new Promise<void>(r => { resolve = r; });
+    return {
+      id: options.id || `utterance-${this.utteranceCount}`,
+      text,
+      translation: options.translation,
+      rank: PRIORITY_RANK[options.priority || 'normal'],
+      order: this.utteranceCount,
+      isStream,
+      chunks: [],
+      isInputClosed: false,
+      isPumping: false,
+      hasFailed: false,
+      sources: new Set(),
+      startTime: null,
+      durationMs: 0,
+      hasStarted: false,
+      resolve,
+      ended,
+    };
+  }
+
+  private enqueue(utterance: Utterance, policy: InterruptPolicy) {
+    if (policy === 'replace') {
+      this.cancelAll('interrupted');
+    } else if (policy === 'interrupt' && this.current && this.current.rank < utterance.rank) {
+      this.finish(this.current, 'interrupted', false);
+    }
+    this.queue.push(utterance);
+    this.queue.sort((a, b) => b.rank - a.rank || a.order - b.order);
+    this.emit('queued', utterance);
+    this.advance();
+  }
+
+  private cancelAll(reason: UtteranceEndReason) {
+    [...this.queue].forEach(u => this.finish(u, reason, false));
+    if (this.current) this.finish(this.current, reason, false);
+  }
+
+  private advance() {
+    if (this.current || !this.queue.length) return;
+    this.current = this.queue.shift()!;
+    this.pump(this.current);
+  }
+
+  // Decodes and schedules the utterance's pending chunks back to back, in order
+  private async pump(utterance: Utterance) {
+    if (utterance.isPumping) return;
+    utterance.isPumping = true;
+    while (utterance.chunks.length && utterance === this.current) {
+      const data = await utterance.chunks.shift()!;
+      if (utterance !== this.current) break;
+      if (!data || !(await this.scheduleChunk(utterance, data))) utterance.hasFailed = true;
+    }
+    utterance.isPumping = false;
+    this.checkFinished(utterance);
+  }
+
+  private async scheduleChunk(utterance: Utterance, base64Audio: string): Promise<boolean> {
+    if (this.isDisposed) return false;
+    await this.initializeAudioContext();
+    // Cancelled while the context was resuming
+    if (utterance !== this.current) return true;
+    const ctx = this.outputAudioContext!;
+    try {
+      const audioBuffer = await decodeAudioData(decode(base64Audio), ctx, OUTPUT_SAMPLE_RATE, 1);
+      if (utterance !== this.current) return true;
+
+      const startTime = Math.max(this.nextStartTime, ctx.currentTime);
+      const source = ctx.createBufferSource();
+      source.buffer = audioBuffer;
+      source.connect(this.outputNode!);
+      source.onended = () => {
+        utterance.sources.delete(source);
+        this.checkFinished(utterance);
+      };
+      source.start(startTime);
+      utterance.sources.add(source);
+      if (utterance.startTime === null) utterance.startTime = startTime;
+      utterance.durationMs += audioBuffer.duration * 1000;
+      this.nextStartTime = startTime + audioBuffer.duration;
+      return true;
+    } catch (e) {
+      console.error("Error decoding audio data", e);
+      return false;
+    }
+  }
+
+  private checkFinished(utterance: Utterance) {
+    // Streams finish as soon as they run dry
+    if (utterance !== this.current || utterance.isPumping || utterance.chunks.length || utterance.sources.size) return;
+    const reason = utterance.hasFailed && utterance.startTime === null ? 'failed' : 'completed';
+    this.finish(utterance, reason);
+  }
+
+  private finish(utterance: Utterance, reason: UtteranceEndReason, advance = true) {
+    utterance.isInputClosed = true;
+    utterance.chunks = [];
+    utterance.sources.forEach(source => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+      source.disconnect();
+    });
+    utterance.sources.clear();
+
+    if (utterance === this.current) {
+      this.current = null;
+      this.nextStartTime = this.outputAudioContext?.currentTime ?? 0;
+    } else {
+      this.queue = this.queue.filter(u => u !== utterance);
+    }
+
+    // Short clips can end between two animation frames; still report that they started
+    if (reason === 'completed' && !utterance.hasStarted) this.markStarted(utterance);
+    this.emit('ended', utterance, { elapsedMs: this.getElapsedMs(utterance), reason });
+    utterance.resolve();
+
+    if (advance) this.advance();
+    if (!this.current && this.isPlaying) {
+      this.isPlaying = false;
+      this.onPlayingChange(false);
+    }
+  }
+
+  private markStarted(utterance: Utterance) {
+    utterance.hasStarted = true;
+    this.emit('started', utterance);
+    if (!this.isPlaying) {
+      this.isPlaying = true;
+      this.onPlayingChange(true);
+    }
+  }
+
+  private getElapsedMs(utterance: Utterance) {
+    if (utterance.startTime === null || !this.outputAudioContext) return 0;
+    const elapsed = (this.outputAudioContext.currentTime - utterance.startTime) * 1000;
+    return Math.max(0, Math.min(utterance.durationMs, elapsed));
+  }
+
+  private emit(type: UtteranceEvent['type'], utterance: Utterance, extra: Partial<UtteranceEvent> = {}) {
+    this.onUtteranceEvent({
+      type,
+      id: utterance.id,
+      text: utterance.text,
+      translation: utterance.translation,
+      words: utterance.words,
+      timestamp: performance.now(),
+      durationMs: utterance.durationMs,
+      ...extra,
+    });
+  }
+
+  // Started/progress events follow the audio clock, checked once per frame
+  private updateProgress() {
+    const utterance = this.current;
+    if (!utterance || utterance.startTime === null || !this.outputAudioContext) return;
+    if (!utterance.hasStarted) {
+      if (this.outputAudioContext.currentTime < utterance.startTime) return;
+      this.markStarted(utterance);
+    }
+    this.emit('progress', utterance, { elapsedMs: this.getElapsedMs(utterance) });
+  }
+
+  private startAnalysisLoop() {
+    this.isAnalysisLoopRunning = true;
+    const frequencyData = new Uint8Array(this.analyzer!.frequencyBinCount);
+    const timeDomainData = new Uint8Array(this.analyzer!.fftSize);
+    let lastTime = performance.now();
+    const loop = () => {
+      if (this.isDisposed) return;
+      const now = performance.now();
+      const delta = Math.min(0.1, (now - lastTime) / 1000);
+      lastTime = now;
+      if (this.analyzer && this.outputAudioContext?.state === 'running') {
+        this.analyzer.getByteFrequencyData(frequencyData);
+        this.analyzer.getByteTimeDomainData(timeDomainData);
+        const visemes = this.visemeEngine.analyse(frequencyData, timeDomainData, this.outputAudioContext.sampleRate, delta);
+        this.onVisemesChange(visemes, this.visemeEngine.level);
+        this.updateProgress();
+      } else {
+        this.visemeEngine.reset();
+        this.onVisemesChange(SILENT_VISEMES, 0);
+      }
+      requestAnimationFrame(loop);
+    };
+    loop();
+  }
+}
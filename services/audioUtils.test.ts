@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { resampleLinear } from './audioUtils';
+
+// A ramp from 0 to 1, which linear interpolation reproduces exactly at any rate
+const ramp = (length: number) => Float32Array.from({ length }, (_, i) => i / (length - 1));
+
+describe('resampleLinear', () => {
+  it('returns the input untouched at the same rate', () => {
+    const data = ramp(10);
+    expect(resampleLinear(data, 16000, 16000)).toBe(data);
+  });
+
+  it('downsamples to the target length, keeping the first sample and the shape', () => {
+    const result = resampleLinear(ramp(4801), 48000, 16000);
+    expect(result.length).toBe(1600);
+    expect(result[0]).toBe(0);
+    expect(result[result.length - 1]).toBeCloseTo(4797 / 4800, 5);
+  });
+
+  it('upsamples without reading past the last sample', () => {
+    const result = resampleLinear(Float32Array.from([0, 1, 0.5]), 8000, 16000);
+    expect(result.length).toBe(6);
+    expect(Array.from(result)).toEqual([0, 0.5, 1, 0.75, 0.5, 0.5]);
+  });
+});
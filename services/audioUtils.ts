@@ -46,6 +46,46 @@ export async function decodeAudioData(
   return buffer;
 }
 
+/**
+ * Converts mono 16-bit PCM into Float32 samples in [-1.0, 1.0].
+ */
+export function decodePcm16(data: Uint8Array): Float32Array {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.byteLength >> 1);
+  const samples = new Float32Array(dataInt16.length);
+  for (let i = 0; i < dataInt16.length; i++) {
+    samples[i] = dataInt16[i] / 32768.0;
+  }
+  return samples;
+}
+
+/**
+ * Encodes mono Float32 samples as a 16-bit PCM WAV file.
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+  }
+  return new Blob([view.buffer], { type: 'audio/wav' });
+}
+
 /**
  * Creates a blob from Float32Array audio data for the Live API (PCM 16kHz).
  */
@@ -62,8 +102,32 @@ export function createPcmBlob(data: Float32Array): AudioBlob {
     const s = Math.max(-1, Math.min(1, data[i]));
     int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
+  return createPcmBlobFromInt16(int16);
+}
+
+/**
+ * Wraps already-converted 16kHz Int16 PCM samples into a blob for the Live API.
+ */
+export function createPcmBlobFromInt16(int16: Int16Array): AudioBlob {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
+    data: encode(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength)),
     mimeType: 'audio/pcm;rate=16000',
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Linearly resamples mono audio. Used when the AudioContext does not run at the rate we need.
+ */
+export function resampleLinear(data: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return data;
+  const ratio = fromRate / toRate;
+  const length = Math.floor(data.length / ratio);
+  const result = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, data.length - 1);
+    result[i] = data[index] + (data[next] - data[index]) * (position - index);
+  }
+  return result;
+}
@@ -0,0 +1,110 @@
+import { ToolCall, ToolDeclaration, ToolHandler } from './providers';
+import { EXPRESSION_NAMES, isExpressionName } from './expressions';
+import { BACKGROUND_PRESETS } from './backgroundPresets';
+import { Background, ExpressionName, LookAtTarget } from '../types';
+
+const LOOK_AT_TARGETS: LookAtTarget[] = ['viewer', 'left', 'right', 'up', 'down'];
+
+/**
+ * What the host app lets the model do with the avatar.
+ */
+export interface AvatarActions {
+  playAnimation: (name: string) => boolean; // false when the model has no such animation
+  setExpression: (name: ExpressionName) => void;
+  setBackground: (background: Background) => void;
+  lookAt: (target: LookAtTarget) => void;
+}
+
+export const AVATAR_TOOL_INSTRUCTION =
+  '你可以调用工具控制自己的形象：play_animation 播放动作，set_expression 切换表情，' +
+  'set_background 更换背景，look_at 转头看向某个方向。在合适的时候自然地使用它们，不要在回答中提及工具本身。';
+
+/**
+ * Function declarations for the avatar tools. Animation names depend on the loaded model.
+ */
+export function buildAvatarTools(animationNames: string[]): ToolDeclaration[] {
+  const tools: ToolDeclaration[] = [
+    {
+      name: 'set_expression',
+      description: '切换数字人的面部表情，使其与正在说的话相符。',
+      parameters: {
+        type: 'object',
+        properties: { name: { type: 'string', enum: EXPRESSION_NAMES } },
+        required: ['name'],
+      },
+    },
+    {
+      name: 'set_background',
+      description: '更换场景背景。',
+      parameters: {
+        type: 'object',
+        properties: {
+          preset: {
+            type: 'string',
+            enum: Object.keys(BACKGROUND_PRESETS),
+            description: Object.entries(BACKGROUND_PRESETS).map(([key, p]) => `${key}: ${p.label}`).join(', '),
+          },
+        },
+        required: ['preset'],
+      },
+    },
+    {
+      name: 'look_at',
+      description: '让数字人转头看向某个方向，viewer 表示看向用户。',
+      parameters: {
+        type: 'object',
+        properties: { target: { type: 'string', enum: LOOK_AT_TARGETS } },
+        required: ['target'],
+      },
+    },
+  ];
+
+  if (animationNames.length > 0) {
+    tools.push({
+      name: 'play_animation',
+      description: '播放模型自带的动作动画，例如挥手或点头。',
+      parameters: {
+        type: 'object',
+        properties: { name: { type: 'string', enum: animationNames } },
+        required: ['name'],
+      },
+    });
+  }
+  return tools;
+}
+
+/**
+ * Routes tool calls to the host app's actions. Unknown tools or arguments are reported
+ * back to the model as errors so it can correct itself.
+ */
+export function createAvatarToolHandler(actions: AvatarActions): ToolHandler {
+  return (call: ToolCall) => {
+    const arg = (key: string) => String(call.args[key] ?? '');
+    switch (call.name) {
+      case 'play_animation': {
+        const name = arg('name');
+        return actions.playAnimation(name) ? { result: 'ok' } : { error: `未知动画: ${name}` };
+      }
+      case 'set_expression': {
+        const name = arg('name').toLowerCase();
+        if (!isExpressionName(name)) return { error: `未知表情: ${name}` };
+        actions.setExpression(name);
+        return { result: 'ok' };
+      }
+      case 'set_background': {
+        const preset = BACKGROUND_PRESETS[arg('preset')];
+        if (!preset) return { error: `未知背景: ${arg('preset')}` };
+        actions.setBackground(preset.background);
+        return { result: 'ok' };
+      }
+      case 'look_at': {
+        const target = arg('target') as LookAtTarget;
+        if (!LOOK_AT_TARGETS.includes(target)) return { error: `未知方向: ${target}` };
+        actions.lookAt(target);
+        return { result: 'ok' };
+      }
+      default:
+        return { error: `未知工具: ${call.name}` };
+    }
+  };
+}
@@ -0,0 +1,20 @@
+import { Background } from '../types';
+
+/**
+ * Named backgrounds offered in BackgroundPanel, which the model can also switch to via the
+ * set_background tool.
+ */
+export const BACKGROUND_PRESETS: Record<string, { label: string, background: Background }> = {
+  mint: { label: '清新薄荷', background: { type: 'gradient', value: 'linear-gradient(120deg, #84fab0 0%, #8fd3f4 100%)' } },
+  sunset: { label: '温暖夕阳', background: { type: 'gradient', value: 'linear-gradient(120deg, #fccb90 0%, #d57eeb 100%)' } },
+  dreamy: { label: '梦幻紫蓝', background: { type: 'gradient', value: 'linear-gradient(120deg, #e0c3fc 0%, #8ec5fc 100%)' } },
+  forest: { label: '森林', background: { type: 'hdri', value: 'forest' } },
+  park: { label: '公园', background: { type: 'hdri', value: 'park' } },
+  city: { label: '户外', background: { type: 'hdri', value: 'city' } },
+  studio: { label: '实验室', background: { type: 'hdri', value: 'studio' } },
+  night: { label: '赛博夜', background: { type: 'hdri', value: 'night' } },
+  space: { label: '深空', background: { type: 'color', value: '#050510' } },
+  yellow: { label: '活力黄', background: { type: 'color', value: '#F2C94C' } },
+  purple: { label: '电光紫', background: { type: 'color', value: '#9B51E0' } },
+  black: { label: '纯黑', background: { type: 'color', value: '#111111' } },
+};
@@ -0,0 +1,50 @@
+import { WordTiming } from '../types';
+
+// Preferred places to break a long caption, strongest first
+const BREAK_CHARS = ['。！？!?…', '，、；：,;:', ' '];
+
+/**
+ * How many characters of `text` have been spoken after `elapsedMs`. Uses the provider's word
+ * timings when there are any, otherwise assumes characters are spoken at an even rate.
+ */
+export function getSpokenLength(text: string, elapsedMs: number, durationMs: number, words?: WordTiming[]): number {
+  if (words?.length) {
+    let cursor = 0;
+    let spoken = 0;
+    for (const word of words) {
+      const index = text.indexOf(word.text, cursor);
+      if (index === -1) continue;
+      cursor = index + word.text.length;
+      if (word.startMs > elapsedMs) break;
+      // Reveal a word gradually while it is being said
+      const progress = word.endMs > word.startMs ? Math.min(1, (elapsedMs - word.startMs) / (word.endMs - word.startMs)) : 1;
+      spoken = index + Math.ceil(word.text.length * progress);
+    }
+    return spoken;
+  }
+  if (durationMs <= 0) return 0;
+  return Math.round(text.length * Math.min(1, elapsedMs / durationMs));
+}
+
+/**
+ * Splits text into caption lines of at most `maxChars`, breaking after punctuation where possible.
+ * Nothing is trimmed, so the lines concatenate back to `text` and spoken offsets stay valid.
+ */
+export function splitCaptionLines(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let rest = text;
+  while (rest.length > maxChars) {
+    let cut = -1;
+    for (const chars of BREAK_CHARS) {
+      for (let i = maxChars - 1; i >= maxChars / 2 && cut === -1; i--) {
+        if (chars.includes(rest[i])) cut = i + 1;
+      }
+      if (cut !== -1) break;
+    }
+    if (cut === -1) cut = maxChars;
+    lines.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  if (rest) lines.push(rest);
+  return lines;
+}
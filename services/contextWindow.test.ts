@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { Message } from '../types';
+import { estimateTokens, splitHistory } from './contextWindow';
+
+const message = (role: Message['role'], text: string, i: number): Message => ({ id: `m${i}`, role, text, timestamp: new Date(0) });
+
+// Alternating user/model messages, one turn per pair
+const conversation = (...texts: string[]) => texts.map((text, i) => message(i % 2 ? 'model' : 'user', text, i));
+
+describe('estimateTokens', () => {
+  it('counts CJK characters one each and other text four characters a token', () => {
+    expect(estimateTokens('你好')).toBe(2);
+    expect(estimateTokens('hello world!')).toBe(3);
+    expect(estimateTokens('你好 hi')).toBe(3);
+  });
+});
+
+describe('splitHistory', () => {
+  it('keeps the most recent turns up to maxTurns', () => {
+    const history = conversation('一', '二', '三', '四', '五', '六');
+    const { older, recent } = splitHistory(history, { maxTurns: 2 });
+    expect(older.map(m => m.id)).toEqual(['m0', 'm1']);
+    expect(recent.map(m => m.id)).toEqual(['m2', 'm3', 'm4', 'm5']);
+  });
+
+  it('cuts before a user message once the token budget is spent', () => {
+    const history = conversation('一二三四', '一二三四', '一二', '一二');
+    // The last turn takes 4 tokens; the one before would bring it to 12
+    const { older, recent } = splitHistory(history, { maxTokens: 10 });
+    expect(older.map(m => m.id)).toEqual(['m0', 'm1']);
+    expect(recent.map(m => m.id)).toEqual(['m2', 'm3']);
+  });
+
+  it('keeps the whole last turn even when it alone is over the budget', () => {
+    const history = conversation('一', '一', '很长的问题很长的问题', '很长的回答很长的回答');
+    const { older, recent } = splitHistory(history, { maxTokens: 5 });
+    expect(older.map(m => m.id)).toEqual(['m0', 'm1']);
+    expect(recent.map(m => m.id)).toEqual(['m2', 'm3']);
+  });
+
+  it('keeps everything that fits', () => {
+    const history = conversation('一', '二', '三');
+    expect(splitHistory(history)).toEqual({ older: [], recent: history });
+  });
+});
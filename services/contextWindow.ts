@@ -0,0 +1,52 @@
+import { ContextPolicy, Message } from '../types';
+
+export const DEFAULT_CONTEXT_POLICY: Required<ContextPolicy> = {
+  maxTurns: 20,
+  maxTokens: 8000,
+  summarize: true,
+};
+
+export const SUMMARY_INSTRUCTION = '你负责压缩对话记录。请用简洁的要点概括其中的事实、用户的偏好和尚未解决的问题，不要添加对话中没有的内容，也不要使用表情标签。';
+
+/**
+ * A rough token count, good enough for budgeting: CJK characters are about one token each,
+ * other text about four characters per token.
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/**
+ * Splits the history into the most recent turns that fit the policy and everything older. The cut
+ * always falls right before a user message, so the recent part starts with a whole turn. The last
+ * turn is always kept, even when it alone is over the token budget.
+ */
+export function splitHistory(history: Message[], policy: ContextPolicy = {}): { older: Message[], recent: Message[] } {
+  const { maxTurns, maxTokens } = { ...DEFAULT_CONTEXT_POLICY, ...policy };
+  let start = history.length;
+  let turns = 0;
+  let tokens = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const isUser = history[i].role === 'user';
+    tokens += estimateTokens(history[i].text);
+    if (start < history.length && (tokens > maxTokens || (isUser && turns >= maxTurns))) break;
+    if (isUser) turns++;
+    if (isUser || i === 0) start = i;
+  }
+  return { older: history.slice(0, start), recent: history.slice(start) };
+}
+
+/**
+ * The request that folds older messages into the running summary.
+ */
+export function buildSummaryRequest(messages: Message[], previousSummary?: string): string {
+  const transcript = messages.map(m => `${m.role === 'user' ? '用户' : '助手'}：${m.text}`).join('\n');
+  return previousSummary
+    ? `已有摘要：\n${previousSummary}\n\n请把以下后续对话合并进摘要：\n${transcript}`
+    : `请概括以下对话：\n${transcript}`;
+}
+
+export function getSummaryInstruction(summary: string): string {
+  return `此前对话的摘要（更早的内容不再逐条提供）：\n${summary}`;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { Message } from '../types';
+import { DEFAULT_SESSION_TITLE, getSessionTitle, parseSession } from './conversations';
+
+const message = (role: Message['role'], text: string): Message => ({ id: text, role, text, timestamp: new Date(0) });
+
+describe('getSessionTitle', () => {
+  it('uses the first thing the user said, shortened', () => {
+    expect(getSessionTitle([message('model', '你好'), message('user', '  今天  天气怎么样 ')])).toBe('今天 天气怎么样');
+    expect(getSessionTitle([message('user', '一二三四五六七八九十一二三四五六七八九十多出来')])).toBe('一二三四五六七八九十一二三四五六七八九十…');
+  });
+
+  it('falls back to the default title', () => {
+    expect(getSessionTitle([message('model', '你好'), message('user', '   ')])).toBe(DEFAULT_SESSION_TITLE);
+  });
+});
+
+describe('parseSession', () => {
+  it('reads an exported session back with its dates', () => {
+    const session = parseSession(JSON.stringify({
+      id: 'session-1',
+      title: '',
+      createdAt: '2025-01-02T03:04:05.000Z',
+      messages: [{ id: 'a', role: 'user', text: '讲个笑话', timestamp: '2025-01-02T03:04:05.000Z' }, { role: 'model', text: '好的' }],
+      summary: { upToId: 'a', text: '用户想听笑话' },
+    }));
+    expect(session.id).toBe('session-1');
+    expect(session.title).toBe('讲个笑话');
+    expect(session.createdAt.toISOString()).toBe('2025-01-02T03:04:05.000Z');
+    expect(session.messages.map(m => [m.role, m.text])).toEqual([['user', '讲个笑话'], ['model', '好的']]);
+    expect(session.messages[0].timestamp).toEqual(session.createdAt);
+    expect(session.summary).toEqual({ upToId: 'a', text: '用户想听笑话' });
+  });
+
+  it('drops a malformed summary', () => {
+    expect(parseSession(JSON.stringify({ messages: [], summary: { text: 1 } })).summary).toBeUndefined();
+  });
+
+  it('rejects malformed sessions', () => {
+    expect(() => parseSession('{')).toThrow('不是有效的 JSON');
+    expect(() => parseSession('[]')).toThrow('应该是一个 JSON 对象');
+    expect(() => parseSession('{}')).toThrow('缺少 messages');
+    expect(() => parseSession(JSON.stringify({ messages: [message('user', '好'), null] }))).toThrow('第 2 条消息');
+    expect(() => parseSession(JSON.stringify({ messages: [{ role: 'system', text: '好' }] }))).toThrow('第 1 条消息');
+    expect(() => parseSession(JSON.stringify({ messages: [{ role: 'user', text: 42 }] }))).toThrow('第 1 条消息');
+  });
+});
@@ -0,0 +1,134 @@
+import { ConversationSession, Message } from '../types';
+
+const DB_NAME = 'digital-human';
+const DB_VERSION = 1;
+const STORE_NAME = 'conversations';
+const TITLE_LENGTH = 20;
+
+export const DEFAULT_SESSION_TITLE = '新对话';
+
+const toPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  };
+  return toPromise(request);
+}
+
+/**
+ * Saved conversations in the browser's IndexedDB. Sessions are stored whole, dates included.
+ */
+export class ConversationStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  private async objectStore(mode: IDBTransactionMode) {
+    if (!this.database) this.database = openDatabase();
+    return (await this.database).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  /**
+   * All sessions, most recently updated first.
+   */
+  async list(): Promise<ConversationSession[]> {
+    const sessions = await toPromise<ConversationSession[]>((await this.objectStore('readonly')).getAll());
+    return sessions.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async get(id: string): Promise<ConversationSession | undefined> {
+    return toPromise<ConversationSession | undefined>((await this.objectStore('readonly')).get(id));
+  }
+
+  async save(session: ConversationSession): Promise<void> {
+    await toPromise((await this.objectStore('readwrite')).put(session));
+  }
+
+  async rename(id: string, title: string): Promise<ConversationSession | undefined> {
+    const session = await this.get(id);
+    if (!session) return undefined;
+    const renamed = { ...session, title };
+    await this.save(renamed);
+    return renamed;
+  }
+
+  async delete(id: string): Promise<void> {
+    await toPromise((await this.objectStore('readwrite')).delete(id));
+  }
+}
+
+export function createSession(personaId?: string): ConversationSession {
+  const now = new Date();
+  return { id: `session-${now.getTime()}`, title: DEFAULT_SESSION_TITLE, personaId, createdAt: now, updatedAt: now, messages: [] };
+}
+
+/**
+ * A title from the first thing the user said.
+ */
+export function getSessionTitle(messages: Message[]): string {
+  const first = messages.find(m => m.role === 'user' && m.text.trim())?.text.trim().replace(/\s+/g, ' ');
+  if (!first) return DEFAULT_SESSION_TITLE;
+  return first.length > TITLE_LENGTH ? `${first.slice(0, TITLE_LENGTH)}…` : first;
+}
+
+export function exportSessionJson(session: ConversationSession): string {
+  return JSON.stringify(session, null, 2);
+}
+
+/**
+ * A readable transcript, e.g. for sharing or pasting into notes.
+ */
+export function exportSessionMarkdown(session: ConversationSession, names = { user: '用户', model: '数字人' }): string {
+  const lines = [`# ${session.title}`, '', `> ${session.createdAt.toLocaleString('zh-CN')}`, ''];
+  session.messages.forEach(m => {
+    lines.push(`**${names[m.role]}** · ${m.timestamp.toLocaleTimeString('zh-CN')}`, '', m.text, '');
+  });
+  return lines.join('\n');
+}
+
+const toDate = (value: unknown, fallback: Date) => {
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : fallback;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isRole = (value: unknown): value is Message['role'] => value === 'user' || value === 'model';
+
+/**
+ * Reads a session from JSON, e.g. a file exported with `exportSessionJson`. Throws with a
+ * readable message when the messages are missing or malformed.
+ */
+export function parseSession(json: string): ConversationSession {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('会话文件不是有效的 JSON。');
+  }
+  if (!isRecord(data)) throw new Error('会话文件应该是一个 JSON 对象。');
+  if (!Array.isArray(data.messages)) throw new Error('会话缺少 messages。');
+
+  const now = new Date();
+  const messages = data.messages.map((m: unknown, i): Message => {
+    if (!isRecord(m) || !isRole(m.role) || typeof m.text !== 'string') {
+      throw new Error(`第 ${i + 1} 条消息应为 { role: 'user' | 'model', text }。`);
+    }
+    return { id: typeof m.id === 'string' ? m.id : `${now.getTime()}-${i}`, role: m.role, text: m.text, timestamp: toDate(m.timestamp, now) };
+  });
+  const { summary } = data;
+  return {
+    id: typeof data.id === 'string' && data.id ? data.id : `session-${now.getTime()}`,
+    title: typeof data.title === 'string' && data.title.trim() ? data.title : getSessionTitle(messages),
+    personaId: typeof data.personaId === 'string' ? data.personaId : undefined,
+    createdAt: toDate(data.createdAt, now),
+    updatedAt: toDate(data.updatedAt, now),
+    messages,
+    summary: isRecord(summary) && typeof summary.upToId === 'string' && typeof summary.text === 'string'
+      ? { upToId: summary.upToId, text: summary.text }
+      : undefined,
+  };
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { ExpressionTagFilter, stripExpressionTags } from './expressions';
+
+describe('ExpressionTagFilter', () => {
+  it('keeps each tag where it appeared in the text', () => {
+    const filter = new ExpressionTagFilter();
+    expect(filter.push('[expression:happy]太好了。[expression:sad]可惜').parts).toEqual([
+      { expression: 'happy' }, '太好了。', { expression: 'sad' }, '可惜',
+    ]);
+  });
+
+  it('holds back a tag split across fragments', () => {
+    const filter = new ExpressionTagFilter();
+    expect(filter.push('好的。[expre').parts).toEqual(['好的。']);
+    expect(filter.push('ssion:surprised]真的吗').parts).toEqual([{ expression: 'surprised' }, '真的吗']);
+  });
+
+  it('drops unknown expressions but still hides their tags', () => {
+    expect(stripExpressionTags('[expression:bored]嗯。')).toEqual({ text: '嗯。', expressions: [] });
+  });
+});
@@ -0,0 +1,143 @@
+import { Expression, ExpressionName } from '../types';
+
+export const EXPRESSION_NAMES: ExpressionName[] = ['neutral', 'happy', 'sad', 'surprised', 'thinking', 'angry'];
+
+export const DEFAULT_TRANSITION_MS = 400;
+
+/**
+ * ARKit blendshape weights for each named expression at full intensity.
+ * Neutral keeps a light smile so the resting face looks friendly rather than blank.
+ */
+export const EXPRESSION_PRESETS: Record<ExpressionName, Record<string, number>> = {
+  neutral: {
+    mouthSmileLeft: 0.25, mouthSmileRight: 0.25,
+  },
+  happy: {
+    mouthSmileLeft: 0.8, mouthSmileRight: 0.8,
+    cheekSquintLeft: 0.5, cheekSquintRight: 0.5,
+    eyeSquintLeft: 0.3, eyeSquintRight: 0.3,
+    browInnerUp: 0.1,
+  },
+  sad: {
+    mouthFrownLeft: 0.6, mouthFrownRight: 0.6,
+    browInnerUp: 0.8,
+    eyeBlinkLeft: 0.15, eyeBlinkRight: 0.15,
+    mouthPressLeft: 0.2, mouthPressRight: 0.2,
+  },
+  surprised: {
+    browInnerUp: 0.9, browOuterUpLeft: 0.8, browOuterUpRight: 0.8,
+    eyeWideLeft: 0.8, eyeWideRight: 0.8,
+    jawOpen: 0.2,
+  },
+  thinking: {
+    browDownLeft: 0.4, browOuterUpRight: 0.5,
+    eyeSquintLeft: 0.3,
+    eyeLookUpLeft: 0.3, eyeLookUpRight: 0.3,
+    mouthPressLeft: 0.3, mouthRollLower: 0.2,
+  },
+  angry: {
+    browDownLeft: 0.9, browDownRight: 0.9,
+    eyeSquintLeft: 0.5, eyeSquintRight: 0.5,
+    noseSneerLeft: 0.5, noseSneerRight: 0.5,
+    mouthPressLeft: 0.4, mouthPressRight: 0.4,
+    jawForward: 0.1,
+  },
+};
+
+// Non-ARKit rigs often have a single symmetric morph instead of a left/right pair
+export const MORPH_ALIASES: Record<string, string[]> = {
+  mouthSmileLeft: ['mouthSmile', 'smile'],
+  mouthFrownLeft: ['mouthFrown', 'frown'],
+  browDownLeft: ['browDown'],
+  browOuterUpLeft: ['browOuterUp'],
+  eyeWideLeft: ['eyeWide'],
+};
+
+// Every blendshape the expression layer may touch, so a transition can also fade out keys
+export const EXPRESSION_MORPHS = Array.from(new Set(EXPRESSION_NAMES.flatMap(name => Object.keys(EXPRESSION_PRESETS[name]))));
+
+export function isExpressionName(name: string): name is ExpressionName {
+  return (EXPRESSION_NAMES as string[]).includes(name);
+}
+
+export function normalizeExpression(expression: ExpressionName | Expression | undefined): Required<Expression> {
+  const value = typeof expression === 'string' ? { name: expression } : expression || { name: 'neutral' as const };
+  return {
+    name: value.name,
+    intensity: Math.max(0, Math.min(1, value.intensity ?? 1)),
+    transitionMs: value.transitionMs ?? DEFAULT_TRANSITION_MS,
+  };
+}
+
+/**
+ * Preset weights scaled by intensity.
+ */
+export function getExpressionWeights(expression: Required<Expression>): Record<string, number> {
+  const weights: Record<string, number> = {};
+  Object.entries(EXPRESSION_PRESETS[expression.name]).forEach(([morph, weight]) => {
+    weights[morph] = weight * expression.intensity;
+  });
+  return weights;
+}
+
+// --- Expression tags in model replies ---
+// The text model is asked to prefix what it says with tags like [expression:happy].
+// Tags are stripped from the visible and spoken text and reported separately.
+
+export const EXPRESSION_TAG_INSTRUCTION =
+  `在回复中用 [expression:名称] 标签标注你说话时的表情，名称可选：${EXPRESSION_NAMES.join(', ')}。` +
+  `每次回复以一个标签开头，情绪变化时可以在句子前再加标签。标签不会被朗读。`;
+
+const TAG_PATTERN = /\[expression:\s*(\w+)\s*\]/g;
+const MAX_TAG_LENGTH = 32;
+
+// Streamed text in order, with each tag where it appeared
+export type ExpressionTagPart = string | { expression: ExpressionName };
+
+/**
+ * Removes expression tags from streamed text. A fragment ending in what could be the
+ * start of a tag ("[expre") is held back until the next fragment resolves it.
+ */
+export class ExpressionTagFilter {
+  private buffer = '';
+
+  push(fragment: string): { text: string, expressions: ExpressionName[], parts: ExpressionTagPart[] } {
+    this.buffer += fragment;
+    const parts: ExpressionTagPart[] = [];
+    let end = 0;
+    for (const match of this.buffer.matchAll(TAG_PATTERN)) {
+      if (match.index > end) parts.push(this.buffer.slice(end, match.index));
+      const lower = match[1].toLowerCase();
+      if (isExpressionName(lower)) parts.push({ expression: lower });
+      end = match.index + match[0].length;
+    }
+
+    let rest = this.buffer.slice(end);
+    const openIndex = rest.lastIndexOf('[');
+    if (openIndex !== -1 && !rest.includes(']', openIndex) && rest.length - openIndex < MAX_TAG_LENGTH) {
+      this.buffer = rest.slice(openIndex);
+      rest = rest.slice(0, openIndex);
+    } else {
+      this.buffer = '';
+    }
+    if (rest) parts.push(rest);
+
+    return {
+      text: parts.filter(part => typeof part === 'string').join(''),
+      expressions: parts.flatMap(part => typeof part === 'string' ? [] : [part.expression]),
+      parts,
+    };
+  }
+
+  flush(): string {
+    const rest = this.buffer;
+    this.buffer = '';
+    return rest;
+  }
+}
+
+export function stripExpressionTags(text: string): { text: string, expressions: ExpressionName[] } {
+  const filter = new ExpressionTagFilter();
+  const result = filter.push(text);
+  return { text: (result.text + filter.flush()).trim(), expressions: result.expressions };
+}
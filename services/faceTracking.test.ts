@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import fixtures from './__fixtures__/faceLandmarks.json';
+import { FaceLandmark, landmarksToFaceFrame } from './faceTracking';
+
+// The fixture keeps only the landmarks the estimator reads, keyed by face mesh index
+function landmarks(frame: keyof typeof fixtures): FaceLandmark[] {
+  const points: FaceLandmark[] = [];
+  Object.entries(fixtures[frame]).forEach(([index, point]) => { points[Number(index)] = point; });
+  return points;
+}
+
+describe('landmarksToFaceFrame', () => {
+  it('reads a relaxed frontal face as neutral', () => {
+    const { blendshapes, headRotation } = landmarksToFaceFrame(landmarks('neutral'));
+    expect(blendshapes.eyeBlinkLeft).toBe(0);
+    expect(blendshapes.eyeBlinkRight).toBe(0);
+    expect(blendshapes.jawOpen).toBeLessThan(0.1);
+    expect(blendshapes.mouthSmileLeft).toBe(0);
+    expect(blendshapes.mouthPucker).toBe(0);
+    expect(headRotation.pitch).toBeCloseTo(0, 5);
+    expect(headRotation.yaw).toBeCloseTo(0, 5);
+    expect(headRotation.roll).toBeCloseTo(0, 5);
+  });
+
+  it('closes both eyes', () => {
+    const { blendshapes } = landmarksToFaceFrame(landmarks('eyesClosed'));
+    expect(blendshapes.eyeBlinkLeft).toBe(1);
+    expect(blendshapes.eyeBlinkRight).toBe(1);
+  });
+
+  it('opens the jaw with the lips', () => {
+    expect(landmarksToFaceFrame(landmarks('mouthOpen')).blendshapes.jawOpen).toBe(1);
+  });
+
+  it('smiles when the mouth corners widen', () => {
+    const { blendshapes } = landmarksToFaceFrame(landmarks('smile'));
+    expect(blendshapes.mouthSmileLeft).toBeCloseTo(0.9, 2);
+    expect(blendshapes.mouthSmileRight).toBeCloseTo(0.9, 2);
+  });
+
+  it('recovers a head turn', () => {
+    // Turned 0.3 rad to the subject's right: the left cheek comes towards the camera
+    const { headRotation } = landmarksToFaceFrame(landmarks('headTurnedRight'));
+    expect(headRotation.yaw).toBeCloseTo(-0.3, 2);
+    expect(headRotation.pitch).toBeCloseTo(0, 2);
+    expect(headRotation.roll).toBeCloseTo(0, 2);
+  });
+});
@@ -0,0 +1,173 @@
+import { FaceLandmarker, FaceLandmarkerResult, FilesetResolver } from '@mediapipe/tasks-vision';
+import { Euler, Matrix4, Vector3 } from 'three';
+import { FaceTrackingFrame, FaceTrackingOptions } from '../types';
+
+// Both are served by the app itself, so tracking works without network access
+const DEFAULT_WASM_PATH = '/mediapipe/wasm';
+const DEFAULT_MODEL_PATH = '/models/face_landmarker.task';
+// How long the face may be missing before tracking hands the avatar back to procedural animation
+const FACE_LOST_MS = 500;
+
+export interface FaceLandmark {
+  x: number; // normalized image coordinates, as produced by MediaPipe
+  y: number;
+  z: number;
+}
+
+export interface FaceTracker {
+  stop: () => void;
+}
+
+// MediaPipe face mesh landmark indices
+const LANDMARK = {
+  forehead: 10, chin: 152, leftCheek: 454, rightCheek: 234,
+  leftEyeTop: 386, leftEyeBottom: 374, leftEyeOuter: 263, leftEyeInner: 362,
+  rightEyeTop: 159, rightEyeBottom: 145, rightEyeOuter: 33, rightEyeInner: 133,
+  leftBrow: 334, rightBrow: 105,
+  upperLip: 13, lowerLip: 14, mouthLeft: 291, mouthRight: 61,
+};
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+const range = (value: number, from: number, to: number) => clamp01((value - from) / (to - from));
+
+/**
+ * Estimates ARKit blendshapes and head rotation from raw face mesh landmarks. Used when the model
+ * doesn't output blendshapes, and handy for replaying recorded landmark fixtures.
+ * `aspectRatio` is the source image's width / height, so x and y distances are comparable.
+ */
+export function landmarksToFaceFrame(landmarks: FaceLandmark[], aspectRatio = 1): FaceTrackingFrame {
+  // Image space (x right, y down, z away from the camera) to a y-up space facing the camera
+  const point = (index: number) => {
+    const l = landmarks[index];
+    return new Vector3(l.x * aspectRatio, -l.y, -l.z * aspectRatio);
+  };
+  const distance = (a: number, b: number) => point(a).distanceTo(point(b));
+
+  const faceHeight = distance(LANDMARK.forehead, LANDMARK.chin);
+  const faceWidth = distance(LANDMARK.leftCheek, LANDMARK.rightCheek);
+
+  const right = point(LANDMARK.leftCheek).sub(point(LANDMARK.rightCheek)).normalize();
+  const up = point(LANDMARK.forehead).sub(point(LANDMARK.chin)).normalize();
+  const forward = new Vector3().crossVectors(right, up).normalize();
+  up.crossVectors(forward, right);
+  const rotation = new Euler().setFromRotationMatrix(new Matrix4().makeBasis(right, up, forward), 'YXZ');
+
+  const eyeOpenness = (top: number, bottom: number, outer: number, inner: number) =>
+    distance(top, bottom) / distance(outer, inner);
+  const leftBlink = range(0.28 - eyeOpenness(LANDMARK.leftEyeTop, LANDMARK.leftEyeBottom, LANDMARK.leftEyeOuter, LANDMARK.leftEyeInner), 0, 0.2);
+  const rightBlink = range(0.28 - eyeOpenness(LANDMARK.rightEyeTop, LANDMARK.rightEyeBottom, LANDMARK.rightEyeOuter, LANDMARK.rightEyeInner), 0, 0.2);
+
+  const mouthWidth = distance(LANDMARK.mouthLeft, LANDMARK.mouthRight) / faceWidth;
+  const browRaise = (brow: number, eye: number) => range(distance(brow, eye) / faceHeight, 0.11, 0.15);
+
+  return {
+    blendshapes: {
+      eyeBlinkLeft: leftBlink,
+      eyeBlinkRight: rightBlink,
+      jawOpen: range(distance(LANDMARK.upperLip, LANDMARK.lowerLip) / faceHeight, 0.01, 0.13),
+      mouthSmileLeft: range(mouthWidth, 0.4, 0.48),
+      mouthSmileRight: range(mouthWidth, 0.4, 0.48),
+      mouthPucker: range(0.36 - mouthWidth, 0, 0.06),
+      browInnerUp: (browRaise(LANDMARK.leftBrow, LANDMARK.leftEyeTop) + browRaise(LANDMARK.rightBrow, LANDMARK.rightEyeTop)) / 2,
+    },
+    headRotation: { pitch: rotation.x, yaw: rotation.y, roll: rotation.z },
+  };
+}
+
+/**
+ * Converts a FaceLandmarker result, preferring the model's own blendshapes and transformation
+ * matrix over the landmark estimates. Returns null when no face was found.
+ */
+export function toFaceFrame(result: FaceLandmarkerResult, aspectRatio = 1): FaceTrackingFrame | null {
+  const landmarks = result.faceLandmarks[0];
+  if (!landmarks) return null;
+  const frame = landmarksToFaceFrame(landmarks, aspectRatio);
+
+  const categories = result.faceBlendshapes?.[0]?.categories;
+  if (categories?.length) {
+    frame.blendshapes = {};
+    categories.forEach(c => {
+      if (c.categoryName !== '_neutral') frame.blendshapes[c.categoryName] = c.score;
+    });
+  }
+  const matrix = result.facialTransformationMatrixes?.[0];
+  if (matrix?.data.length === 16) {
+    const rotation = new Euler().setFromRotationMatrix(new Matrix4().fromArray(matrix.data), 'YXZ');
+    frame.headRotation = { pitch: rotation.x, yaw: rotation.y, roll: rotation.z };
+  }
+  return frame;
+}
+
+/**
+ * Swaps left and right, so the avatar moves like the user's reflection.
+ */
+export function mirrorFaceFrame(frame: FaceTrackingFrame): FaceTrackingFrame {
+  const blendshapes: Record<string, number> = {};
+  Object.entries(frame.blendshapes).forEach(([name, value]) => {
+    const mirrored = name.endsWith('Left') ? name.replace(/Left$/, 'Right') : name.endsWith('Right') ? name.replace(/Right$/, 'Left') : name;
+    blendshapes[mirrored] = value;
+  });
+  // Eyes looking "in" and "out" stay in and out, only the side changes
+  const { pitch, yaw, roll } = frame.headRotation;
+  return { blendshapes, headRotation: { pitch, yaw: -yaw, roll: -roll } };
+}
+
+/**
+ * Runs the MediaPipe face landmarker on a webcam stream and reports one frame per video frame,
+ * or null once the face has been lost for a moment.
+ */
+export async function startFaceTracking(
+  stream: MediaStream,
+  onFrame: (frame: FaceTrackingFrame | null) => void,
+  options: FaceTrackingOptions = {}
+): Promise<FaceTracker> {
+  const { wasmPath = DEFAULT_WASM_PATH, modelPath = DEFAULT_MODEL_PATH, mirror = true } = options;
+
+  const fileset = await FilesetResolver.forVisionTasks(wasmPath);
+  const landmarker = await FaceLandmarker.createFromOptions(fileset, {
+    baseOptions: { modelAssetPath: modelPath, delegate: 'GPU' },
+    runningMode: 'VIDEO',
+    numFaces: 1,
+    outputFaceBlendshapes: true,
+    outputFacialTransformationMatrixes: true,
+  });
+
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  await video.play();
+
+  let isRunning = true;
+  let lastVideoTime = -1;
+  let lastFaceTime = performance.now();
+  let hasFace = false;
+  const loop = () => {
+    if (!isRunning) return;
+    if (video.readyState >= 2 && video.currentTime !== lastVideoTime) {
+      lastVideoTime = video.currentTime;
+      const now = performance.now();
+      const frame = toFaceFrame(landmarker.detectForVideo(video, now), video.videoWidth / (video.videoHeight || 1));
+      if (frame) {
+        lastFaceTime = now;
+        hasFace = true;
+        onFrame(mirror ? mirrorFaceFrame(frame) : frame);
+      } else if (hasFace && now - lastFaceTime > FACE_LOST_MS) {
+        hasFace = false;
+        onFrame(null);
+      }
+    }
+    requestAnimationFrame(loop);
+  };
+  loop();
+
+  return {
+    stop: () => {
+      isRunning = false;
+      video.pause();
+      video.srcObject = null;
+      landmarker.close();
+      onFrame(null);
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import { MathUtils } from 'three';
+import { GazeOptions } from '../types';
+
+export interface GazeAngles {
+  yaw: number; // radians, positive turns towards the avatar's left (+X)
+  pitch: number; // radians, positive looks down
+}
+
+export interface GazePose {
+  eyes: GazeAngles; // relative to the head
+  head: GazeAngles; // relative to the body, split between neck and head bones by the caller
+}
+
+const DEFAULT_GAZE_OPTIONS: Required<GazeOptions> = {
+  eyeShare: 0.4,
+  maxEyeYaw: 30,
+  maxEyePitch: 20,
+  maxHeadYaw: 50,
+  maxHeadPitch: 30,
+  saccades: true,
+};
+
+// Eyes jump to a new target almost instantly, the head follows slowly (matches the avatar's bone smoothing)
+const EYE_TAU = 0.035;
+const HEAD_TAU = 0.16;
+// Microsaccades: small random eye jumps every SACCADE_MIN_S to SACCADE_MAX_S seconds
+const SACCADE_MIN_S = 0.4;
+const SACCADE_MAX_S = 2.5;
+const SACCADE_YAW = MathUtils.degToRad(1.5);
+const SACCADE_PITCH = MathUtils.degToRad(1);
+
+/**
+ * Splits a gaze direction between eyes and head the way people move: the eyes lead and take small
+ * turns on their own, the head catches up on larger ones while the eyes counter-rotate to stay on
+ * target. Both are clamped to comfortable ranges.
+ */
+export class GazeController {
+  private options = DEFAULT_GAZE_OPTIONS;
+  private head: GazeAngles = { yaw: 0, pitch: 0 };
+  private eyes: GazeAngles = { yaw: 0, pitch: 0 };
+  private saccade: GazeAngles = { yaw: 0, pitch: 0 };
+  private nextSaccade = 0;
+  private time = 0;
+  private random: () => number;
+
+  constructor(random: () => number = Math.random) {
+    this.random = random;
+  }
+
+  setOptions(options: GazeOptions = {}) {
+    this.options = { ...DEFAULT_GAZE_OPTIONS, ...options };
+  }
+
+  update(target: GazeAngles, deltaSeconds: number): GazePose {
+    const { eyeShare, maxEyeYaw, maxEyePitch, maxHeadYaw, maxHeadPitch, saccades } = this.options;
+    this.time += deltaSeconds;
+
+    const rad = MathUtils.degToRad;
+    const headTarget = {
+      yaw: MathUtils.clamp(target.yaw * (1 - eyeShare), -rad(maxHeadYaw), rad(maxHeadYaw)),
+      pitch: MathUtils.clamp(target.pitch * (1 - eyeShare), -rad(maxHeadPitch), rad(maxHeadPitch)),
+    };
+    const headBlend = 1 - Math.exp(-deltaSeconds / HEAD_TAU);
+    this.head.yaw += (headTarget.yaw - this.head.yaw) * headBlend;
+    this.head.pitch += (headTarget.pitch - this.head.pitch) * headBlend;
+
+    if (saccades && this.time >= this.nextSaccade) {
+      this.saccade = {
+        yaw: (this.random() * 2 - 1) * SACCADE_YAW,
+        pitch: (this.random() * 2 - 1) * SACCADE_PITCH,
+      };
+      this.nextSaccade = this.time + SACCADE_MIN_S + this.random() * (SACCADE_MAX_S - SACCADE_MIN_S);
+    } else if (!saccades) {
+      this.saccade = { yaw: 0, pitch: 0 };
+    }
+
+    // The eyes cover whatever the head hasn't turned yet
+    const eyeTarget = {
+      yaw: MathUtils.clamp(target.yaw - this.head.yaw + this.saccade.yaw, -rad(maxEyeYaw), rad(maxEyeYaw)),
+      pitch: MathUtils.clamp(target.pitch - this.head.pitch + this.saccade.pitch, -rad(maxEyePitch), rad(maxEyePitch)),
+    };
+    const eyeBlend = 1 - Math.exp(-deltaSeconds / EYE_TAU);
+    this.eyes.yaw += (eyeTarget.yaw - this.eyes.yaw) * eyeBlend;
+    this.eyes.pitch += (eyeTarget.pitch - this.eyes.pitch) * eyeBlend;
+
+    return { eyes: { ...this.eyes }, head: { ...this.head } };
+  }
+}
@@ -0,0 +1,187 @@
+import { ApiError, Content, FunctionCall, GoogleGenAI, LiveServerMessage, Modality, Part, Tool } from '@google/genai';
+import {
+  ConversationProvider, SynthesisOptions, TextChatOptions, LiveConnectOptions, LiveRealtimeInput, LiveServerEvent, LiveSession, LiveSessionCallbacks,
+  ToolCall, ToolDeclaration, ToolResult, runToolCalls
+} from './providers';
+import { Message } from '../types';
+
+// Defaults for the Gemini models, used when a persona doesn't choose its own
+const LIVE_API_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const TEXT_MODEL = 'gemini-2.5-flash';
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+const VOICE_NAME = 'Kore';
+// Where `npm run server` listens by default
+export const DEFAULT_BACKEND_URL = 'http://localhost:8787';
+// Upper bound on call/response round-trips per text turn, in case the model keeps calling tools
+const MAX_TOOL_ROUNDS = 4;
+
+const toContents = (text: string, history: Message[]): Content[] => [
+  ...history.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+  { role: 'user', parts: [{ text }] }
+];
+
+const toGeminiTools = (tools?: ToolDeclaration[]): Tool[] | undefined =>
+  tools?.length
+    ? [{ functionDeclarations: tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+    : undefined;
+
+const toToolCalls = (calls: FunctionCall[]): ToolCall[] =>
+  calls.map(c => ({ id: c.id, name: c.name || '', args: c.args || {} }));
+
+const toFunctionResponses = (results: ToolResult[]) =>
+  results.map(r => ({ id: r.id, name: r.name, response: r.response }));
+
+export interface GeminiBackend {
+  backendUrl: string; // the proxy in `server/`, e.g. DEFAULT_BACKEND_URL
+}
+
+/**
+ * Gemini adapter for the conversation provider interfaces. Give it the URL of the backend in
+ * `server/`, which keeps the API key on the server; a raw API key also works but ends up in the
+ * browser, so only use one for local experiments.
+ */
+export class GeminiProvider implements ConversationProvider {
+  private ai: GoogleGenAI;
+  private backendUrl?: string;
+
+  constructor(auth: string | GeminiBackend) {
+    if (typeof auth === 'string') {
+      this.ai = new GoogleGenAI({ apiKey: auth });
+      return;
+    }
+    this.backendUrl = auth.backendUrl.replace(/\/$/, '');
+    // The SDK wants a key; the backend drops it and adds the real one
+    this.ai = new GoogleGenAI({ apiKey: 'backend', httpOptions: { baseUrl: `${this.backendUrl}/api/gemini` } });
+  }
+
+  /**
+   * The client for a Live session. The websocket can't go through the backend, so it hands out a
+   * single-use ephemeral token for each session instead.
+   */
+  private async getLiveClient(model: string): Promise<GoogleGenAI> {
+    if (!this.backendUrl) return this.ai;
+    // The token only opens sessions with the model it was minted for
+    const response = await fetch(`${this.backendUrl}/api/live-token`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ model }),
+    });
+    if (!response.ok) throw new ApiError({ message: `获取实时会话令牌失败（HTTP ${response.status}）。`, status: response.status });
+    const { token } = await response.json();
+    return new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+  }
+
+  async sendMessage(text: string, history: Message[], options: TextChatOptions = {}): Promise<string> {
+    const contents = toContents(text, history);
+    for (let round = 0; ; round++) {
+      const response = await this.ai.models.generateContent({
+        model: options.model || TEXT_MODEL,
+        contents,
+        config: { systemInstruction: options.systemInstruction, tools: toGeminiTools(options.tools) },
+      });
+      const calls = response.functionCalls;
+      const modelContent = response.candidates?.[0]?.content;
+      if (!calls?.length || !options.onToolCall || !modelContent || round >= MAX_TOOL_ROUNDS) {
+        return response.text || "我不太确定如何回应。";
+      }
+      // Answer the calls and let the model continue the conversation with their results
+      const results = await runToolCalls(toToolCalls(calls), options.onToolCall);
+      contents.push(modelContent, { role: 'user', parts: toFunctionResponses(results).map(functionResponse => ({ functionResponse })) });
+    }
+  }
+
+  async *streamMessage(text: string, history: Message[], options: TextChatOptions = {}): AsyncIterable<string> {
+    const contents = toContents(text, history);
+    for (let round = 0; ; round++) {
+      const stream = await this.ai.models.generateContentStream({
+        model: options.model || TEXT_MODEL,
+        contents,
+        config: { systemInstruction: options.systemInstruction, tools: toGeminiTools(options.tools) },
+      });
+      const modelParts: Part[] = [];
+      const calls: FunctionCall[] = [];
+      for await (const chunk of stream) {
+        modelParts.push(...(chunk.candidates?.[0]?.content?.parts || []));
+        calls.push(...(chunk.functionCalls || []));
+        if (chunk.text) yield chunk.text;
+      }
+      if (!calls.length || !options.onToolCall || round >= MAX_TOOL_ROUNDS) return;
+      const results = await runToolCalls(toToolCalls(calls), options.onToolCall);
+      contents.push(
+        { role: 'model', parts: modelParts },
+        { role: 'user', parts: toFunctionResponses(results).map(functionResponse => ({ functionResponse })) }
+      );
+    }
+  }
+
+  async synthesize(text: string, options: SynthesisOptions = {}): Promise<string | null> {
+    const ttsResponse = await this.ai.models.generateContent({
+      model: options.model || TTS_MODEL,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voiceName || VOICE_NAME } } },
+      },
+    });
+    return ttsResponse.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
+  }
+
+  async connectLive(options: LiveConnectOptions, callbacks: LiveSessionCallbacks): Promise<LiveSession> {
+    const model = options.model || LIVE_API_MODEL;
+    const ai = await this.getLiveClient(model);
+    const session = await ai.live.connect({
+      model,
+      callbacks: {
+        onopen: callbacks.onOpen,
+        onmessage: (message: LiveServerMessage) => callbacks.onEvent(toLiveServerEvent(message)),
+        onclose: (event: CloseEvent) => callbacks.onClose({ code: event.code, reason: event.reason }),
+        onerror: callbacks.onError,
+      },
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voiceName || VOICE_NAME } },
+          languageCode: options.languageCode,
+        },
+        systemInstruction: options.systemInstruction,
+        tools: toGeminiTools(options.tools),
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        realtimeInputConfig: {
+          automaticActivityDetection: { disabled: !options.automaticActivityDetection },
+        },
+        // Always ask for resumption handles, so a dropped connection can pick up where it was
+        sessionResumption: { handle: options.resumptionHandle },
+      },
+    });
+
+    return {
+      sendRealtimeInput: (input: LiveRealtimeInput) => {
+        if (input.activityStart) session.sendRealtimeInput({ activityStart: {} });
+        if (input.audio) session.sendRealtimeInput({ media: input.audio });
+        if (input.activityEnd) session.sendRealtimeInput({ activityEnd: {} });
+      },
+      sendToolResponse: (results: ToolResult[]) => {
+        session.sendToolResponse({ functionResponses: toFunctionResponses(results) });
+      },
+      close: () => session.close(),
+    };
+  }
+}
+
+// Protobuf durations arrive as strings such as "12.5s"
+const parseDurationMs = (duration?: string) => (parseFloat(duration || '') || 0) * 1000;
+
+function toLiveServerEvent(message: LiveServerMessage): LiveServerEvent {
+  const content = message.serverContent;
+  return {
+    audio: content?.modelTurn?.parts?.[0]?.inlineData?.data,
+    inputTranscript: content?.inputTranscription?.text,
+    outputTranscript: content?.outputTranscription?.text,
+    interrupted: content?.interrupted,
+    turnComplete: content?.turnComplete,
+    toolCalls: message.toolCall?.functionCalls ? toToolCalls(message.toolCall.functionCalls) : undefined,
+    resumptionHandle: message.sessionResumptionUpdate?.resumable ? message.sessionResumptionUpdate.newHandle : undefined,
+    goAwayMs: message.goAway ? parseDurationMs(message.goAway.timeLeft) : undefined,
+  };
+}
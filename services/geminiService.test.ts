@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { ConnectionState, ExpressionName, Message } from '../types';
+import { GeminiService } from './geminiService';
+import { MockProvider } from './mockProvider';
+
+const FIRST_REPLY = '你好！我现在处于离线演示模式，所有回答都是预设的。';
+
+function createService() {
+  const states: ConnectionState[] = [];
+  const service = new GeminiService(state => states.push(state), () => {}, () => {}, () => {}, new MockProvider(0));
+  return { service, states };
+}
+
+const message = (role: Message['role'], text: string, i: number): Message => ({ id: `m${i}`, role, text, timestamp: new Date(0) });
+
+describe('GeminiService with MockProvider', () => {
+  it('returns a text reply without its expression tags', async () => {
+    const { service, states } = createService();
+    const expressions: ExpressionName[] = [];
+    expect(await service.sendMessage('你好', [], name => expressions.push(name))).toBe(FIRST_REPLY);
+    expect(expressions).toEqual(['happy']);
+    // A text turn doesn't touch the live connection
+    expect(states).toEqual([]);
+  });
+
+  it('streams a reply into growing updates and whole sentences', async () => {
+    const { service } = createService();
+    const updates: string[] = [];
+    const sentences: [string, ExpressionName | undefined][] = [];
+    const reply = await service.streamMessage('你好', [], text => updates.push(text), (sentence, expression) => sentences.push([sentence, expression]));
+    expect(reply).toBe(FIRST_REPLY);
+    expect(updates.length).toBeGreaterThan(1);
+    updates.forEach((text, i) => expect(FIRST_REPLY.startsWith(text) && (i === 0 || text.length > updates[i - 1].length)).toBe(true));
+    expect(updates.some(text => text.includes('['))).toBe(false);
+    // "你好！" is too short to be spoken on its own and goes with the next sentence
+    expect(sentences).toEqual([[FIRST_REPLY, 'happy']]);
+  });
+
+  it('tags each streamed sentence with the expression written before it', async () => {
+    const { service } = createService();
+    await service.sendMessage('你好', []);
+    const sentences: [string, ExpressionName | undefined][] = [];
+    await service.streamMessage('你是谁', [], () => {}, (sentence, expression) => sentences.push([sentence, expression]));
+    expect(sentences).toEqual([
+      ['这是一个本地模拟的回复。', 'thinking'],
+      ['连接真实的语言模型后，我就能认真回答你的问题了。', 'neutral'],
+    ]);
+  });
+
+  it('summarizes turns beyond the context policy through the provider', async () => {
+    const { service } = createService();
+    service.setContextPolicy({ maxTurns: 1 });
+    const history = [message('user', '第一个问题', 0), message('model', '第一个回答', 1), message('user', '第二个问题', 2), message('model', '第二个回答', 3)];
+    await service.sendMessage('第三个问题', history);
+    // The first canned reply went to the summary, so the text turn got the second one
+    expect(service.getContextSummary()).toEqual({ upToId: 'm1', text: FIRST_REPLY });
+  });
+});
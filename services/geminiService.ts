@@ -1,129 +1,501 @@
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { createPcmBlob, decode, decodeAudioData } from './audioUtils';
-import { ConnectionState, Message } from '../types';
+import { startMicrophoneCapture, MicrophoneCapture } from './microphoneCapture';
+import { VoiceActivityDetector } from './voiceActivityDetector';
+import { AudioBlob } from './audioUtils';
+import { ConversationProvider, LiveCloseInfo, LiveRealtimeInput, LiveServerEvent, LiveSession, TextChatOptions, ToolDeclaration, ToolHandler, runToolCalls } from './providers';
+import { DEFAULT_BACKEND_URL, GeminiProvider } from './geminiProvider';
+import { SentenceSplitter } from './sentenceSplitter';
+import { EXPRESSION_TAG_INSTRUCTION, ExpressionTagFilter, stripExpressionTags } from './expressions';
+import { AVATAR_TOOL_INSTRUCTION } from './avatarTools';
+import { DEFAULT_PERSONA, getPersonaInstruction } from './personas';
+import { DEFAULT_CONTEXT_POLICY, SUMMARY_INSTRUCTION, buildSummaryRequest, getSummaryInstruction, splitHistory } from './contextWindow';
+import { closeToLiveError, createLiveError, isRetryable, toLiveError } from './liveErrors';
+import { ConnectionDetails, ConnectionState, ContextPolicy, ContextSummary, ExpressionName, InputMode, LiveError, LiveErrorCause, Message, Persona } from '../types';
 
-// Constants for Audio
-const LIVE_API_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
-const TEXT_MODEL = 'gemini-2.5-flash';
+// Frames kept while the VAD is closed, sent on activity start so word onsets aren't clipped
+const VAD_PREROLL_FRAMES = 3;
+// A session that hasn't opened by then counts as a lost connection
+const OPEN_TIMEOUT_MS = 15000;
+// Reconnects back off exponentially from the base delay up to the cap, then give up
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 16000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+// A session has to stay open this long before the backoff starts over, so a server that accepts
+// and then drops every connection still runs out of attempts
+const STABLE_SESSION_MS = 10000;
 
 export class GeminiService {
-  private ai: GoogleGenAI;
+  private provider: ConversationProvider;
   private inputAudioContext: AudioContext | null = null;
   private audioStream: MediaStream | null = null;
-  private processor: ScriptProcessorNode | null = null;
-  private sourceNode: MediaStreamAudioSourceNode | null = null;
-  private currentSession: Promise<any> | null = null;
+  private capture: MicrophoneCapture | null = null;
+  private currentSession: Promise<LiveSession> | null = null;
+  // Bumped whenever a session is opened or closed, so callbacks from an old one are ignored
+  private sessionId = 0;
+  private state = ConnectionState.DISCONNECTED;
+  private resumptionHandle: string | null = null;
+  private isGoingAway = false;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private openTimer: ReturnType<typeof setTimeout> | null = null;
+  private stableTimer: ReturnType<typeof setTimeout> | null = null;
+  private transcripts: Record<Message['role'], Message | null> = { user: null, model: null };
+  private inputMode = InputMode.ALWAYS_ON;
+  private isPushToTalkActive = false;
+  private vad = new VoiceActivityDetector();
+  private vadPreroll: AudioBlob[] = [];
+  private tools: ToolDeclaration[] = [];
+  private toolHandler: ToolHandler | null = null;
+  private persona: Persona = DEFAULT_PERSONA;
+  private contextPolicy: ContextPolicy = DEFAULT_CONTEXT_POLICY;
+  private contextSummary: ContextSummary | null = null;
   
   // Callbacks
-  private onStateChange: (state: ConnectionState) => void;
+  private onStateChange: (state: ConnectionState, details?: ConnectionDetails) => void;
   private onMessage: (msg: Message) => void;
   private onAudioChunk: (base64Audio: string) => void;
+  private onInterrupted: () => void;
 
   constructor(
-    onStateChange: (state: ConnectionState) => void,
+    onStateChange: (state: ConnectionState, details?: ConnectionDetails) => void,
     onMessage: (msg: Message) => void,
-    onAudioChunk: (base64Audio: string) => void
+    onAudioChunk: (base64Audio: string) => void,
+    onInterrupted: () => void = () => {},
+    provider: ConversationProvider = new GeminiProvider({ backendUrl: process.env.BACKEND_URL || DEFAULT_BACKEND_URL })
   ) {
-    this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+    this.provider = provider;
     this.onStateChange = onStateChange;
     this.onMessage = onMessage;
     this.onAudioChunk = onAudioChunk;
+    this.onInterrupted = onInterrupted;
   }
  
-  // --- Text Chat Capability ---
-  async sendMessage(text: string, history: Message[]): Promise<string> {
+  // --- Function Calling ---
+  // Tools are sent with every text request; a live session picks them up on the next connect().
+  setTools(tools: ToolDeclaration[], handler: ToolHandler | null) {
+    this.tools = tools;
+    this.toolHandler = handler;
+  }
+
+  // --- Persona ---
+  // Text requests use the new persona right away; a live session picks it up on the next connect().
+  setPersona(persona: Persona) {
+    this.persona = persona;
+  }
+
+  // --- Context Window ---
+  // Older text turns beyond the policy are folded into a running summary that goes out with the
+  // system instruction. The summary belongs to the conversation: save it with the messages and
+  // restore it with setContextSummary() when switching conversations.
+  setContextPolicy(policy: ContextPolicy) {
+    this.contextPolicy = { ...DEFAULT_CONTEXT_POLICY, ...policy };
+  }
+
+  setContextSummary(summary: ContextSummary | null) {
+    this.contextSummary = summary;
+  }
+
+  getContextSummary() {
+    return this.contextSummary;
+  }
+
+  private async fitHistory(history: Message[]): Promise<{ history: Message[], summary?: string }> {
+    const { older, recent } = splitHistory(history, this.contextPolicy);
+    if (!older.length || !this.contextPolicy.summarize) return { history: recent };
+    const lastOlder = older[older.length - 1];
+    const previous = this.contextSummary;
+    if (previous?.upToId === lastOlder.id) return { history: recent, summary: previous.text };
+
+    // Only the messages the summary doesn't cover yet are summarized; a summary of messages that
+    // now fit again (or of another conversation) is started over
+    const covered = previous ? older.findIndex(m => m.id === previous.upToId) : -1;
+    const previousText = covered >= 0 ? previous!.text : undefined;
     try {
-      const response = await this.ai.models.generateContent({
-        model: TEXT_MODEL,
-        contents: [
-          ...history.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
-          { role: 'user', parts: [{ text }] }
-        ],
+      const reply = await this.provider.sendMessage(buildSummaryRequest(older.slice(covered + 1), previousText), [], {
+        systemInstruction: SUMMARY_INSTRUCTION,
+        model: this.persona.models?.text,
       });
-      return response.text || "我不太确定如何回应。";
+      this.contextSummary = { upToId: lastOlder.id, text: stripExpressionTags(reply).text };
+      return { history: recent, summary: this.contextSummary.text };
+    } catch (error) {
+      // The reply matters more than the summary: go ahead with what is left
+      console.error("Summarization failed", error);
+      return { history: recent, summary: previousText };
+    }
+  }
+
+  private getSystemInstruction(isLive: boolean, summary?: string) {
+    const lines = [getPersonaInstruction(this.persona)];
+    // Text replies can carry expression tags; spoken live replies can't, or the tags would be read aloud
+    if (!isLive) lines.push(EXPRESSION_TAG_INSTRUCTION);
+    if (this.tools.length > 0) lines.push(AVATAR_TOOL_INSTRUCTION);
+    if (summary) lines.push(getSummaryInstruction(summary));
+    return lines.join('\n');
+  }
+
+  private getTextOptions(summary?: string): TextChatOptions {
+    return {
+      systemInstruction: this.getSystemInstruction(false, summary),
+      model: this.persona.models?.text,
+      tools: this.toolHandler ? this.tools : undefined,
+      onToolCall: this.toolHandler || undefined,
+    };
+  }
+
+  // --- Text Chat Capability ---
+  async sendMessage(text: string, history: Message[], onExpression?: (name: ExpressionName) => void): Promise<string> {
+    try {
+      const context = await this.fitHistory(history);
+      const reply = await this.provider.sendMessage(text, context.history, this.getTextOptions(context.summary));
+      const result = stripExpressionTags(reply);
+      result.expressions.forEach(name => onExpression?.(name));
+      return result.text;
     } catch (error) {
       console.error("Text chat error:", error);
       throw error;
     }
   }
 
+  /**
+   * Streams the reply: `onUpdate` receives the text so far for the chat bubble, and
+   * `onSentence` each completed sentence, ready to be queued for speech, together with the
+   * expression the model tagged it with. Passing the expression along with its sentence lets
+   * the avatar change its face when that sentence is spoken, not when it is queued.
+   */
+  async streamMessage(
+    text: string,
+    history: Message[],
+    onUpdate: (textSoFar: string) => void,
+    onSentence: (sentence: string, expression?: ExpressionName) => void
+  ): Promise<string> {
+    const splitter = new SentenceSplitter();
+    const tagFilter = new ExpressionTagFilter();
+    let fullText = '';
+    // Tags by where they appeared in the visible text; a tag belongs to the sentence whose text
+    // follows it, even when that tag arrives before the previous sentence is complete
+    const tags: { offset: number, expression: ExpressionName }[] = [];
+    let emittedLength = 0;
+    const emitSentence = (sentence: string) => {
+      emittedLength = fullText.indexOf(sentence, emittedLength) + sentence.length;
+      let expression: ExpressionName | undefined;
+      while (tags.length && tags[0].offset < emittedLength) expression = tags.shift()!.expression;
+      onSentence(sentence, expression);
+    };
+    const handleText = (visible: string) => {
+      if (!visible) return;
+      fullText += visible;
+      onUpdate(fullText);
+      splitter.push(visible).forEach(emitSentence);
+    };
+    try {
+      const context = await this.fitHistory(history);
+      for await (const fragment of this.provider.streamMessage(text, context.history, this.getTextOptions(context.summary))) {
+        tagFilter.push(fragment).parts.forEach(part => {
+          if (typeof part === 'string') handleText(part);
+          else tags.push({ offset: fullText.length, expression: part.expression });
+        });
+      }
+      handleText(tagFilter.flush());
+      const rest = splitter.flush();
+      if (rest) emitSentence(rest);
+      fullText = fullText.trim();
+      return fullText || "我不太确定如何回应。";
+    } catch (error) {
+      console.error("Text chat error:", error);
+      throw error;
+    }
+  }
+
+  // --- Input Mode ---
+  // Push-to-talk and VAD modes turn off server-side activity detection and send explicit
+  // activityStart/activityEnd markers, so a mode change takes effect on the next connect().
+  setInputMode(mode: InputMode) {
+    this.inputMode = mode;
+  }
+
+  getInputMode() {
+    return this.inputMode;
+  }
+
+  setPushToTalk(active: boolean) {
+    if (this.inputMode !== InputMode.PUSH_TO_TALK || active === this.isPushToTalkActive) return;
+    this.isPushToTalkActive = active;
+    this.sendRealtimeInput(active ? { activityStart: true } : { activityEnd: true });
+  }
+
+  private sendRealtimeInput(input: LiveRealtimeInput) {
+    // Audio captured while reconnecting is dropped rather than replayed late
+    if (this.state !== ConnectionState.CONNECTED) return;
+    this.currentSession?.then((session) => {
+      session.sendRealtimeInput(input);
+    }, () => {});
+  }
+
+  private handleMicrophoneChunk(pcmBlob: AudioBlob, level: number, durationMs: number) {
+    switch (this.inputMode) {
+      case InputMode.ALWAYS_ON:
+        this.sendRealtimeInput({ audio: pcmBlob });
+        break;
+      case InputMode.PUSH_TO_TALK:
+        if (this.isPushToTalkActive) this.sendRealtimeInput({ audio: pcmBlob });
+        break;
+      case InputMode.VOICE_ACTIVITY: {
+        const event = this.vad.process(level, durationMs);
+        if (event === 'start') {
+          this.sendRealtimeInput({ activityStart: true });
+          this.vadPreroll.forEach(audio => this.sendRealtimeInput({ audio }));
+          this.vadPreroll = [];
+        }
+        if (this.vad.isSpeaking || event === 'end') {
+          this.sendRealtimeInput({ audio: pcmBlob });
+        } else {
+          this.vadPreroll = [...this.vadPreroll, pcmBlob].slice(-VAD_PREROLL_FRAMES);
+        }
+        if (event === 'end') this.sendRealtimeInput({ activityEnd: true });
+        break;
+      }
+    }
+  }
+
   // --- Live Voice Capability ---
+  // DISCONNECTED/ERROR -> CONNECTING -> CONNECTED, and while connected a lost connection goes to
+  // RECONNECTING and resumes the same session with backoff. Anything that can't be retried (or too
+  // many retries) ends in ERROR with its cause. Leaving CONNECTED for good always closes the session
+  // and releases the microphone.
+  getState() {
+    return this.state;
+  }
+
+  private setState(state: ConnectionState, details?: ConnectionDetails) {
+    this.state = state;
+    this.onStateChange(state, details);
+  }
+
   async connect() {
-    this.onStateChange(ConnectionState.CONNECTING);
+    if (this.state !== ConnectionState.DISCONNECTED && this.state !== ConnectionState.ERROR) return;
+    this.setState(ConnectionState.CONNECTING);
+    this.resumptionHandle = null;
+    this.reconnectAttempt = 0;
+    this.isPushToTalkActive = false;
 
+    const id = this.sessionId;
+    let stream: MediaStream;
     try {
-      // 1. Get User Media
-      this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      this.audioStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-
-      // 2. Connect to Live API
-      this.currentSession = this.ai.live.connect({
-        model: LIVE_API_MODEL,
-        callbacks: {
-          onopen: this.handleOpen.bind(this),
-          onmessage: this.handleLiveMessage.bind(this),
-          onclose: () => this.onStateChange(ConnectionState.DISCONNECTED),
-          onerror: (e) => {
-            console.error(e);
-            this.onStateChange(ConnectionState.ERROR);
-          },
-        },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-          systemInstruction: "你是一个乐于助人且富有表现力的3D数字形象。请用简洁和对话的方式回答。",
-          inputAudioTranscription: {}, 
-          outputAudioTranscription: {}, 
+      if (!navigator.mediaDevices?.getUserMedia) throw new DOMException('getUserMedia is not available', 'NotSupportedError');
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (error) {
+      if (id === this.sessionId) this.fail(toLiveError(error));
+      return;
+    }
+    // Disconnected while the permission prompt was up
+    if (id !== this.sessionId) {
+      stream.getTracks().forEach(t => t.stop());
+      return;
+    }
+    this.audioStream = stream;
+    // The capture pipeline resamples to 16kHz itself, so the context can run at the device rate
+    this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    this.openSession();
+  }
+
+  private openSession() {
+    const id = ++this.sessionId;
+    const isCurrent = () => id === this.sessionId;
+    let error: LiveError | null = null;
+    this.isGoingAway = false;
+
+    this.currentSession = this.provider.connectLive(
+      {
+        systemInstruction: this.getSystemInstruction(true),
+        model: this.persona.models?.live,
+        voiceName: this.persona.voiceName,
+        languageCode: this.persona.language,
+        automaticActivityDetection: this.inputMode === InputMode.ALWAYS_ON,
+        tools: this.toolHandler ? this.tools : undefined,
+        resumptionHandle: this.resumptionHandle ?? undefined,
+      },
+      {
+        onOpen: () => { if (isCurrent()) this.handleOpen(); },
+        onEvent: (event) => { if (isCurrent()) this.handleLiveEvent(event); },
+        onClose: (info) => { if (isCurrent()) this.handleClose(info, error); },
+        onError: (e) => {
+          // The socket closes right after; the close decides what happens next
+          console.error("Live session error", e);
+          error = toLiveError(e);
         },
-      });
+      }
+    );
+    this.currentSession.catch((e) => {
+      if (isCurrent()) this.handleDrop(toLiveError(e));
+    });
 
+    this.openTimer = setTimeout(() => {
+      this.openTimer = null;
+      if (isCurrent()) this.handleDrop(createLiveError(LiveErrorCause.NETWORK, `Session did not open within ${OPEN_TIMEOUT_MS}ms`));
+    }, OPEN_TIMEOUT_MS);
+  }
+
+  private closeSession() {
+    this.sessionId++;
+    if (this.openTimer) clearTimeout(this.openTimer);
+    this.openTimer = null;
+    if (this.stableTimer) clearTimeout(this.stableTimer);
+    this.stableTimer = null;
+    const session = this.currentSession;
+    this.currentSession = null;
+    session?.then(s => s.close(), () => {});
+  }
+
+  private async handleOpen() {
+    if (this.openTimer) clearTimeout(this.openTimer);
+    this.openTimer = null;
+    this.stableTimer = setTimeout(() => {
+      this.stableTimer = null;
+      this.reconnectAttempt = 0;
+    }, STABLE_SESSION_MS);
+    this.vad.reset();
+    this.vadPreroll = [];
+    this.setState(ConnectionState.CONNECTED);
+    // Still holding the talk button from before the reconnect
+    if (this.isPushToTalkActive) this.sendRealtimeInput({ activityStart: true });
+
+    // The microphone keeps capturing across reconnects; it is only started on the first open
+    const context = this.inputAudioContext;
+    const stream = this.audioStream;
+    if (this.capture || !context || !stream) return;
+    try {
+      const capture = await startMicrophoneCapture(context, stream, this.handleMicrophoneChunk.bind(this));
+      if (this.audioStream === stream) this.capture = capture;
+      else capture.stop();
     } catch (error) {
-      console.error("Connection failed", error);
-      this.onStateChange(ConnectionState.ERROR);
+      console.error("Microphone capture failed", error);
+      if (this.audioStream === stream) this.fail(toLiveError(error));
     }
   }
 
-  private handleOpen() {
-    this.onStateChange(ConnectionState.CONNECTED);
-    if (!this.inputAudioContext || !this.audioStream) return;
+  private handleClose(info: LiveCloseInfo | undefined, error: LiveError | null) {
+    this.closeSession();
+    // Whatever was being said is cut off with the connection
+    this.finishTranscript('user');
+    this.finishTranscript('model');
+    if (this.isGoingAway) {
+      // Announced in advance: resume right away
+      this.setState(ConnectionState.RECONNECTING);
+      this.openSession();
+      return;
+    }
+    this.handleDrop(error ?? closeToLiveError(info));
+  }
 
-    this.sourceNode = this.inputAudioContext.createMediaStreamSource(this.audioStream);
-    this.processor = this.inputAudioContext.createScriptProcessor(4096, 1, 1);
+  private handleDrop(error: LiveError) {
+    this.closeSession();
+    if (!isRetryable(error) || this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+      this.fail(error);
+      return;
+    }
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempt);
+    this.reconnectAttempt++;
+    console.warn(`Live session dropped, reconnecting in ${delay}ms`, error);
+    this.setState(ConnectionState.RECONNECTING, { error, reconnectAttempt: this.reconnectAttempt, reconnectInMs: delay });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSession();
+    }, delay);
+  }
 
-    this.processor.onaudioprocess = (e) => {
-      const inputData = e.inputBuffer.getChannelData(0);
-      const pcmBlob = createPcmBlob(inputData);
-      
-      this.currentSession?.then((session) => {
-        session.sendRealtimeInput({ media: pcmBlob });
-      });
-    };
+  private fail(error: LiveError) {
+    console.error("Live session failed", error);
+    this.teardown();
+    this.setState(ConnectionState.ERROR, { error });
+  }
+
+  private teardown() {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.closeSession();
+    this.resumptionHandle = null;
+    this.isGoingAway = false;
+    this.isPushToTalkActive = false;
 
-    this.sourceNode.connect(this.processor);
-    this.processor.connect(this.inputAudioContext.destination);
+    if (this.capture) {
+      this.capture.stop();
+      this.capture = null;
+    }
+    this.audioStream?.getTracks().forEach(t => t.stop());
+    this.audioStream = null;
+    this.inputAudioContext?.close().catch(() => {});
+    this.inputAudioContext = null;
+
+    this.finishTranscript('user');
+    this.finishTranscript('model');
   }
 
-  private async handleLiveMessage(message: LiveServerMessage) {
-    const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-    if (base64Audio) {
+  private handleLiveEvent(event: LiveServerEvent) {
+    if (event.resumptionHandle) this.resumptionHandle = event.resumptionHandle;
+
+    if (event.goAwayMs !== undefined && !this.isGoingAway) {
+        // The server limits how long one connection lasts; the close that follows is resumed
+        this.isGoingAway = true;
+        this.setState(ConnectionState.CONNECTED, { sessionEndsInMs: event.goAwayMs });
+    }
+
+    if (event.toolCalls?.length && this.toolHandler) {
+        this.handleLiveToolCalls(event.toolCalls);
+    }
+
+    if (event.interrupted) {
+        // The user barged in: whatever the model was saying is cut off here
+        this.finishTranscript('model');
+        this.onInterrupted();
+    }
+
+    if (event.audio) {
         // Pass the audio chunk back to the parent component to handle playback
-        this.onAudioChunk(base64Audio);
+        this.onAudioChunk(event.audio);
     }
-  }
 
-  async disconnect() {
-    if (this.processor) {
-      this.processor.disconnect();
-      this.processor.onaudioprocess = null;
+    if (event.inputTranscript) this.appendTranscript('user', event.inputTranscript);
+
+    if (event.outputTranscript) {
+        // The model only answers once the user has finished speaking
+        this.finishTranscript('user');
+        this.appendTranscript('model', event.outputTranscript);
     }
-    if (this.sourceNode) this.sourceNode.disconnect();
-    if (this.audioStream) {
-      this.audioStream.getTracks().forEach(t => t.stop());
+
+    if (event.turnComplete) {
+        this.finishTranscript('user');
+        this.finishTranscript('model');
     }
-    if (this.inputAudioContext) await this.inputAudioContext.close();
-    
-    this.onStateChange(ConnectionState.DISCONNECTED);
   }
-}
\ No newline at end of file
+
+  private async handleLiveToolCalls(calls: NonNullable<LiveServerEvent['toolCalls']>) {
+    const results = await runToolCalls(calls, this.toolHandler!);
+    // The model waits for the responses before it continues speaking
+    this.currentSession?.then((session) => {
+      session.sendToolResponse(results);
+    }, () => {});
+  }
+
+  // --- Transcripts ---
+  // Transcription fragments are accumulated per turn and re-emitted under a stable id,
+  // so the chat panel can update the same bubble as text streams in.
+  private appendTranscript(role: Message['role'], fragment: string) {
+    const current = this.transcripts[role];
+    const msg: Message = current
+      ? { ...current, text: current.text + fragment }
+      : { id: `${role}-${Date.now()}`, role, text: fragment, timestamp: new Date(), isPartial: true };
+    this.transcripts[role] = msg;
+    this.onMessage(msg);
+  }
+
+  private finishTranscript(role: Message['role']) {
+    const current = this.transcripts[role];
+    if (!current) return;
+    this.transcripts[role] = null;
+    this.onMessage({ ...current, text: current.text.trim(), isPartial: false });
+  }
+
+  async disconnect() {
+    this.teardown();
+    this.setState(ConnectionState.DISCONNECTED);
+  }
+}
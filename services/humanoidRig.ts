@@ -0,0 +1,200 @@
+import { Bone, Euler, Object3D, Quaternion } from 'three';
+import { HumanoidBoneName, RigOptions } from '../types';
+
+export const HUMANOID_BONES: HumanoidBoneName[] = [
+  'hips', 'spine', 'neck', 'head', 'leftEye', 'rightEye',
+  'leftShoulder', 'leftArm', 'leftForeArm', 'leftHand',
+  'rightShoulder', 'rightArm', 'rightForeArm', 'rightHand',
+];
+
+export interface RigProfile {
+  name: string;
+  // Candidate node names per bone, in order of preference
+  bones: Partial<Record<HumanoidBoneName, string[]>>;
+  // Match candidates as name suffixes rather than whole names (the generic fallback)
+  matchSuffix?: boolean;
+}
+
+// Names as three.js sees them: GLTFLoader strips ':' so "mixamorig:Hips" becomes "mixamorigHips"
+const sided = (prefix: string, left: string, right: string, names: Record<string, string>) => {
+  const bones: Partial<Record<HumanoidBoneName, string[]>> = {};
+  Object.entries(names).forEach(([bone, name]) => {
+    if (bone.startsWith('left')) bones[bone as HumanoidBoneName] = [prefix + name.replace('{side}', left)];
+    else if (bone.startsWith('right')) bones[bone as HumanoidBoneName] = [prefix + name.replace('{side}', right)];
+    else bones[bone as HumanoidBoneName] = name.split('|').map(n => prefix + n);
+  });
+  return bones;
+};
+
+const MIXAMO_NAMES = {
+  hips: 'Hips', spine: 'Spine2|Spine1|Spine', neck: 'Neck', head: 'Head',
+  leftEye: '{side}Eye', rightEye: '{side}Eye',
+  leftShoulder: '{side}Shoulder', leftArm: '{side}Arm', leftForeArm: '{side}ForeArm', leftHand: '{side}Hand',
+  rightShoulder: '{side}Shoulder', rightArm: '{side}Arm', rightForeArm: '{side}ForeArm', rightHand: '{side}Hand',
+};
+
+export const RIG_PROFILES: RigProfile[] = [
+  { name: 'readyPlayerMe', bones: sided('', 'Left', 'Right', MIXAMO_NAMES) },
+  { name: 'mixamo', bones: sided('mixamorig', 'Left', 'Right', MIXAMO_NAMES) },
+  {
+    name: 'vroid',
+    bones: sided('J_', 'L', 'R', {
+      hips: 'Bip_C_Hips', spine: 'Bip_C_UpperChest|Bip_C_Chest|Bip_C_Spine', neck: 'Bip_C_Neck', head: 'Bip_C_Head',
+      leftEye: 'Adj_{side}_FaceEye', rightEye: 'Adj_{side}_FaceEye',
+      leftShoulder: 'Bip_{side}_Shoulder', leftArm: 'Bip_{side}_UpperArm', leftForeArm: 'Bip_{side}_LowerArm', leftHand: 'Bip_{side}_Hand',
+      rightShoulder: 'Bip_{side}_Shoulder', rightArm: 'Bip_{side}_UpperArm', rightForeArm: 'Bip_{side}_LowerArm', rightHand: 'Bip_{side}_Hand',
+    }),
+  },
+  {
+    // Common naming schemes (Daz, Blender Rigify exports, VRM humanoid names), compared without case or punctuation
+    name: 'generic',
+    matchSuffix: true,
+    bones: {
+      hips: ['hips', 'pelvis', 'hip'],
+      spine: ['upperchest', 'chestupper', 'spine2', 'chest', 'spine1', 'spine'],
+      neck: ['neck', 'necklower'],
+      head: ['head'],
+      leftEye: ['lefteye', 'eyeleft', 'leye', 'eyel'],
+      rightEye: ['righteye', 'eyeright', 'reye', 'eyer'],
+      leftShoulder: ['leftshoulder', 'shoulderl', 'lcollar', 'leftclavicle', 'claviclel'],
+      leftArm: ['leftupperarm', 'leftarm', 'upperarml', 'lshldrbend', 'lupperarm'],
+      leftForeArm: ['leftlowerarm', 'leftforearm', 'forearml', 'lowerarml', 'lforearmbend', 'lforearm'],
+      leftHand: ['lefthand', 'handl', 'lhand'],
+      rightShoulder: ['rightshoulder', 'shoulderr', 'rcollar', 'rightclavicle', 'clavicler'],
+      rightArm: ['rightupperarm', 'rightarm', 'upperarmr', 'rshldrbend', 'rupperarm'],
+      rightForeArm: ['rightlowerarm', 'rightforearm', 'forearmr', 'lowerarmr', 'rforearmbend', 'rforearm'],
+      rightHand: ['righthand', 'handr', 'rhand'],
+    },
+  },
+];
+
+// Exact-name profiles win ties against the generic fallback
+const SUFFIX_MATCH_WEIGHT = 0.5;
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export interface RigDetection {
+  profile: string; // 'custom' when nothing matched and only manual mappings apply
+  bones: Partial<Record<HumanoidBoneName, Object3D>>;
+  missing: HumanoidBoneName[];
+}
+
+// A mapping the model file declares itself, e.g. a VRM humanoid
+export interface KnownRig {
+  profile: string;
+  bones: Partial<Record<HumanoidBoneName, Object3D>>;
+}
+
+function matchProfile(profile: RigProfile, skeleton: Bone[]): Partial<Record<HumanoidBoneName, Bone>> {
+  const found: Partial<Record<HumanoidBoneName, Bone>> = {};
+  const used = new Set<Bone>();
+  HUMANOID_BONES.forEach(name => {
+    for (const candidate of profile.bones[name] || []) {
+      const target = normalize(candidate);
+      const bone = skeleton.find(b => !used.has(b) && (profile.matchSuffix ? normalize(b.name).endsWith(target) : normalize(b.name) === target));
+      if (bone) {
+        found[name] = bone;
+        used.add(bone);
+        return;
+      }
+    }
+  });
+  return found;
+}
+
+/**
+ * Maps the model's skeleton to humanoid bones: every built-in profile is scored by how many
+ * bones it finds and the best one wins, unless `options.profile` forces one or the model
+ * brings its own mapping (`known`). Manual mappings in `options.bones` are applied last.
+ */
+export function detectRig(root: Object3D, options: RigOptions = {}, known?: KnownRig): RigDetection {
+  const skeleton: Bone[] = [];
+  root.traverse((node: any) => { if (node.isBone) skeleton.push(node); });
+
+  let best = { profile: 'custom', bones: {} as Partial<Record<HumanoidBoneName, Object3D>>, score: 0 };
+  if (known && !options.profile) best = { ...known, score: Infinity };
+  RIG_PROFILES
+    .filter(profile => !options.profile || profile.name === options.profile)
+    .forEach(profile => {
+      const bones = matchProfile(profile, skeleton);
+      const score = Object.keys(bones).length * (profile.matchSuffix ? SUFFIX_MATCH_WEIGHT : 1);
+      if (score > best.score) best = { profile: profile.name, bones, score };
+    });
+
+  const bones = { ...best.bones };
+  Object.entries(options.bones || {}).forEach(([name, nodeName]) => {
+    const bone = skeleton.find(b => b.name === nodeName);
+    if (bone) bones[name as HumanoidBoneName] = bone;
+    else console.warn(`Bone "${nodeName}" for ${name} not found in the model.`);
+  });
+
+  return { profile: best.profile, bones, missing: HUMANOID_BONES.filter(name => !bones[name]) };
+}
+
+// Rest rotations are stored on the node itself: useGLTF caches scenes, so a remounted avatar
+// may find its bones still posed from last time
+function getRestQuaternion(node: Object3D): Quaternion {
+  if (!node.userData.restQuaternion) node.userData.restQuaternion = node.quaternion.clone();
+  return node.userData.restQuaternion;
+}
+
+const tempEuler = new Euler();
+const tempQuaternion = new Quaternion();
+const tempTarget = new Quaternion();
+
+/**
+ * Poses a humanoid skeleton with rotations relative to its rest pose, expressed in the character's
+ * own frame (x: pitch forward/down, y: turn towards the character's left, z: roll). The same
+ * numbers then give the same pose on any rig whose rest pose is a T-pose, whatever the local
+ * axes of its bones are.
+ */
+export class HumanoidRig {
+  readonly profile: string;
+  readonly bones: Partial<Record<HumanoidBoneName, Object3D>>;
+  readonly missing: HumanoidBoneName[];
+  // Rest orientation of each mapped bone in the frame the model is placed in
+  private restWorld = new Map<HumanoidBoneName, Quaternion>();
+
+  constructor(root: Object3D, detection: RigDetection) {
+    this.profile = detection.profile;
+    this.bones = detection.bones;
+    this.missing = detection.missing;
+    Object.entries(this.bones).forEach(([name, bone]) => {
+      const world = new Quaternion();
+      for (let node: Object3D | null = bone; node; node = node === root ? null : node.parent) {
+        world.premultiply(getRestQuaternion(node));
+      }
+      this.restWorld.set(name as HumanoidBoneName, world);
+    });
+  }
+
+  get(name: HumanoidBoneName): Object3D | null {
+    return this.bones[name] || null;
+  }
+
+  /**
+   * Rotates a bone away from its rest pose by Euler angles in radians about the character's axes
+   * (applied roll, then pitch, then yaw).
+   * With `alpha` below 1 the bone only moves that fraction of the way, for smoothing over frames.
+   */
+  setRotation(name: HumanoidBoneName, x: number, y: number, z: number, alpha = 1) {
+    this.setQuaternion(name, tempQuaternion.setFromEuler(tempEuler.set(x, y, z, 'YXZ')), alpha);
+  }
+
+  /**
+   * Same as setRotation, for rotations that don't fit a single Euler order.
+   */
+  setQuaternion(name: HumanoidBoneName, delta: Quaternion, alpha = 1) {
+    const bone = this.bones[name];
+    const world = this.restWorld.get(name);
+    if (!bone || !world) return;
+    // local = rest * (restWorld^-1 * delta * restWorld)
+    tempTarget.copy(world).invert().multiply(delta).multiply(world).premultiply(getRestQuaternion(bone));
+    if (alpha >= 1) bone.quaternion.copy(tempTarget);
+    else bone.quaternion.slerp(tempTarget, alpha);
+  }
+
+  resetPose() {
+    Object.values(this.bones).forEach(bone => bone.quaternion.copy(getRestQuaternion(bone)));
+  }
+}
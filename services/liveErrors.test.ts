@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveErrorCause } from '../types';
+import { closeToLiveError, isRetryable, toLiveError } from './liveErrors';
+
+describe('toLiveError', () => {
+  beforeEach(() => vi.stubGlobal('navigator', { onLine: true }));
+  afterEach(() => vi.unstubAllGlobals());
+
+  it.each([
+    ['a denied microphone', new DOMException('Permission denied', 'NotAllowedError'), LiveErrorCause.MIC_DENIED],
+    ['a blocked microphone', new DOMException('Insecure context', 'SecurityError'), LiveErrorCause.MIC_DENIED],
+    ['no microphone', new DOMException('Requested device not found', 'NotFoundError'), LiveErrorCause.NO_MIC],
+    ['a microphone in use', new DOMException('Could not start audio source', 'NotReadableError'), LiveErrorCause.NO_MIC],
+    ['HTTP 401', { status: 401, message: 'API key not valid.' }, LiveErrorCause.AUTH],
+    ['HTTP 403', { status: 403, message: 'Forbidden' }, LiveErrorCause.AUTH],
+    ['HTTP 429', { status: 429, message: 'Too many requests.' }, LiveErrorCause.QUOTA],
+    ['HTTP 503', { status: 503, message: 'Unavailable' }, LiveErrorCause.NETWORK],
+    ['an unreachable server', new TypeError('Failed to fetch'), LiveErrorCause.NETWORK],
+    ['a socket error', new Event('error'), LiveErrorCause.NETWORK],
+    ['a quota message', new Error('Resource has been exhausted'), LiveErrorCause.QUOTA],
+    ['an API key message', new Error('API key expired'), LiveErrorCause.AUTH],
+    ['anything else', new Error('Something odd'), LiveErrorCause.UNKNOWN],
+  ])('classifies %s', (_, error, cause) => {
+    expect(toLiveError(error).cause).toBe(cause);
+  });
+
+  it('treats every failure as a network one while offline', () => {
+    vi.stubGlobal('navigator', { onLine: false });
+    expect(toLiveError(new Error('Something odd')).cause).toBe(LiveErrorCause.NETWORK);
+  });
+});
+
+describe('closeToLiveError', () => {
+  it.each([
+    ['an abnormal close', { code: 1006, reason: '' }, LiveErrorCause.NETWORK],
+    ['a server restart', { code: 1011, reason: 'Internal error' }, LiveErrorCause.NETWORK],
+    ['a rejected payload (1007)', { code: 1007, reason: 'Request contains an invalid argument.' }, LiveErrorCause.UNKNOWN],
+    ['a policy violation (1008)', { code: 1008, reason: 'Requested entity was not found.' }, LiveErrorCause.UNKNOWN],
+    ['a bad key (1008)', { code: 1008, reason: 'API key not valid. Please pass a valid API key.' }, LiveErrorCause.AUTH],
+    ['an exhausted quota (1011)', { code: 1011, reason: 'You exceeded your current quota' }, LiveErrorCause.QUOTA],
+    ['no close info', undefined, LiveErrorCause.NETWORK],
+  ])('classifies %s', (_, info, cause) => {
+    expect(closeToLiveError(info).cause).toBe(cause);
+  });
+
+  it('keeps the close code when there is no reason', () => {
+    expect(closeToLiveError({ code: 1006, reason: '' }).detail).toBe('WebSocket closed with code 1006');
+  });
+});
+
+describe('isRetryable', () => {
+  it('only retries lost connections', () => {
+    expect(isRetryable(closeToLiveError({ code: 1006, reason: '' }))).toBe(true);
+    expect(isRetryable(closeToLiveError({ code: 1008, reason: 'API key not valid.' }))).toBe(false);
+    expect(isRetryable(closeToLiveError({ code: 1007, reason: 'Invalid argument' }))).toBe(false);
+  });
+});
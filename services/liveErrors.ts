@@ -0,0 +1,85 @@
+import { LiveCloseInfo } from './providers';
+import { LiveError, LiveErrorCause } from '../types';
+
+const MESSAGES: Record<LiveErrorCause, string> = {
+  [LiveErrorCause.MIC_DENIED]: '麦克风权限被拒绝，请在浏览器设置中允许使用麦克风。',
+  [LiveErrorCause.NO_MIC]: '找不到可用的麦克风，或麦克风正被其他程序占用。',
+  [LiveErrorCause.AUTH]: '认证失败，请检查 API 密钥或后端配置。',
+  [LiveErrorCause.QUOTA]: '请求过于频繁或配额已用完，请稍后再试。',
+  [LiveErrorCause.NETWORK]: '网络连接中断。',
+  [LiveErrorCause.UNKNOWN]: '实时会话出错。',
+};
+
+// WebSocket close codes the server uses to reject the request itself, e.g. a bad model or setup
+const REJECTED_CLOSE_CODES = [1007, 1008];
+
+export function createLiveError(cause: LiveErrorCause, detail?: string): LiveError {
+  return { cause, message: MESSAGES[cause], detail: detail || undefined };
+}
+
+/**
+ * Only lost connections are worth retrying; every other cause needs the user to change something first.
+ */
+export function isRetryable(error: LiveError): boolean {
+  return error.cause === LiveErrorCause.NETWORK;
+}
+
+// Servers and proxies tend to say what went wrong in words rather than codes
+function causeFromText(text: string): LiveErrorCause | null {
+  if (/quota|exhausted|rate.?limit|too many/i.test(text)) return LiveErrorCause.QUOTA;
+  if (/api.?key|unauthenticated|unauthori[sz]ed|permission|credential|token/i.test(text)) return LiveErrorCause.AUTH;
+  return null;
+}
+
+function causeFromStatus(status: number): LiveErrorCause {
+  if (status === 401 || status === 403) return LiveErrorCause.AUTH;
+  if (status === 429) return LiveErrorCause.QUOTA;
+  return status >= 500 ? LiveErrorCause.NETWORK : LiveErrorCause.UNKNOWN;
+}
+
+function causeFromDomException(error: DOMException): LiveErrorCause {
+  switch (error.name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return LiveErrorCause.MIC_DENIED;
+    case 'NotFoundError':
+    case 'NotReadableError':
+    case 'OverconstrainedError':
+    case 'NotSupportedError':
+      return LiveErrorCause.NO_MIC;
+    case 'NetworkError':
+    case 'TimeoutError':
+      return LiveErrorCause.NETWORK;
+    default:
+      return LiveErrorCause.UNKNOWN;
+  }
+}
+
+/**
+ * Classifies whatever getUserMedia, the provider or the socket threw or reported.
+ */
+export function toLiveError(error: unknown): LiveError {
+  const detail = error instanceof Error ? error.message : typeof error === 'string' ? error : undefined;
+  let cause: LiveErrorCause;
+  if (error instanceof DOMException) {
+    cause = causeFromDomException(error);
+  } else if (typeof (error as { status?: unknown })?.status === 'number') {
+    cause = causeFromStatus((error as { status: number }).status);
+  } else if (!navigator.onLine || error instanceof TypeError || error instanceof Event) {
+    // fetch fails with a TypeError when the server can't be reached; sockets report a bare Event
+    cause = LiveErrorCause.NETWORK;
+  } else {
+    cause = causeFromText(detail || '') ?? LiveErrorCause.UNKNOWN;
+  }
+  return createLiveError(cause, detail);
+}
+
+/**
+ * Classifies a connection the server or the network closed without being asked to.
+ */
+export function closeToLiveError(info?: LiveCloseInfo): LiveError {
+  const reason = info?.reason || '';
+  const cause = causeFromText(reason)
+    ?? (info?.code !== undefined && REJECTED_CLOSE_CODES.includes(info.code) ? LiveErrorCause.UNKNOWN : LiveErrorCause.NETWORK);
+  return createLiveError(cause, reason || (info?.code !== undefined ? `WebSocket closed with code ${info.code}` : undefined));
+}
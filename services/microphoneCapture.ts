@@ -0,0 +1,117 @@
+import { AudioBlob, createPcmBlob, createPcmBlobFromInt16, resampleLinear } from './audioUtils';
+
+const TARGET_SAMPLE_RATE = 16000;
+const FRAME_SIZE = 1600; // 100ms of 16kHz audio per message
+const FRAME_DURATION_MS = (FRAME_SIZE / TARGET_SAMPLE_RATE) * 1000;
+
+// The worklet runs on the audio rendering thread, so it cannot import our modules.
+// It resamples to 16kHz, converts to Int16 and posts full frames (plus their RMS level) back over its MessagePort.
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameSize } = options.processorOptions;
+    this.ratio = sampleRate / targetSampleRate;
+    this.frameSize = frameSize;
+    this.frame = new Int16Array(frameSize);
+    this.frameIndex = 0;
+    this.sumSquares = 0;
+    this.position = 0;
+    this.lastSample = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    // position is relative to the current block; -1 refers to the last sample of the previous block
+    while (this.position < input.length - 1) {
+      const index = Math.floor(this.position);
+      const frac = this.position - index;
+      const a = index < 0 ? this.lastSample : input[index];
+      const b = input[index + 1];
+      const s = Math.max(-1, Math.min(1, a + (b - a) * frac));
+      this.frame[this.frameIndex++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+      this.sumSquares += s * s;
+      if (this.frameIndex === this.frameSize) {
+        const level = Math.sqrt(this.sumSquares / this.frameSize);
+        this.port.postMessage({ buffer: this.frame.buffer, level }, [this.frame.buffer]);
+        this.frame = new Int16Array(this.frameSize);
+        this.frameIndex = 0;
+        this.sumSquares = 0;
+      }
+      this.position += this.ratio;
+    }
+    this.position -= input.length;
+    this.lastSample = input[input.length - 1];
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture-processor', PcmCaptureProcessor);
+`;
+
+export interface MicrophoneCapture {
+  stop: () => void;
+}
+
+/**
+ * Streams microphone audio as 16kHz PCM blobs for the Live API, independent of the
+ * AudioContext's own sample rate. Uses an AudioWorklet so capture keeps running smoothly
+ * while the main thread is busy rendering, and falls back to the deprecated
+ * ScriptProcessorNode on browsers without worklet support.
+ */
+export async function startMicrophoneCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  // level is the frame's RMS (0 to 1), durationMs how much audio the blob holds
+  onChunk: (blob: AudioBlob, level: number, durationMs: number) => void
+): Promise<MicrophoneCapture> {
+  const sourceNode = ctx.createMediaStreamSource(stream);
+
+  if (ctx.audioWorklet) {
+    const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+    try {
+      await ctx.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+
+    const workletNode = new AudioWorkletNode(ctx, 'pcm-capture-processor', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      processorOptions: { targetSampleRate: TARGET_SAMPLE_RATE, frameSize: FRAME_SIZE },
+    });
+    workletNode.port.onmessage = (e: MessageEvent<{ buffer: ArrayBuffer, level: number }>) => {
+      onChunk(createPcmBlobFromInt16(new Int16Array(e.data.buffer)), e.data.level, FRAME_DURATION_MS);
+    };
+    sourceNode.connect(workletNode);
+
+    return {
+      stop: () => {
+        workletNode.port.onmessage = null;
+        sourceNode.disconnect();
+        workletNode.disconnect();
+      },
+    };
+  }
+
+  const processor = ctx.createScriptProcessor(4096, 1, 1);
+  processor.onaudioprocess = (e) => {
+    const inputData = resampleLinear(e.inputBuffer.getChannelData(0), ctx.sampleRate, TARGET_SAMPLE_RATE);
+    let sumSquares = 0;
+    for (let i = 0; i < inputData.length; i++) sumSquares += inputData[i] * inputData[i];
+    onChunk(createPcmBlob(inputData), Math.sqrt(sumSquares / Math.max(1, inputData.length)), (inputData.length / TARGET_SAMPLE_RATE) * 1000);
+  };
+  sourceNode.connect(processor);
+  processor.connect(ctx.destination);
+
+  return {
+    stop: () => {
+      processor.onaudioprocess = null;
+      sourceNode.disconnect();
+      processor.disconnect();
+    },
+  };
+}
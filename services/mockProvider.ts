@@ -0,0 +1,145 @@
+import { encode } from './audioUtils';
+import { stripExpressionTags } from './expressions';
+import { ConversationProvider, LiveConnectOptions, LiveRealtimeInput, LiveSession, LiveSessionCallbacks, SynthesisResult } from './providers';
+import { Message, WordTiming } from '../types';
+
+const SAMPLE_RATE = 24000;
+const SYLLABLE_SECONDS = 0.18;
+const CANNED_REPLIES = [
+  '[expression:happy]你好！我现在处于离线演示模式，所有回答都是预设的。',
+  '[expression:thinking]这是一个本地模拟的回复。[expression:neutral]连接真实的语言模型后，我就能认真回答你的问题了。',
+  '[expression:surprised]好问题！[expression:sad]不过在离线模式下，我只能说一些预先准备好的话。',
+];
+// How much microphone audio the mock waits for before "replying" when it detects activity itself
+const AUTO_TURN_MS = 5000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Synthesizes a vowel-like buzz with one amplitude bump per character, so lip sync has
+ * something plausible to follow. Returns base64 16-bit mono PCM at 24kHz.
+ */
+export function synthesizeMockSpeech(text: string): string {
+  const syllables = Math.max(1, text.replace(/\s+/g, '').length);
+  const samples = Math.floor(syllables * SYLLABLE_SECONDS * SAMPLE_RATE);
+  const pcm = new Int16Array(samples);
+  const syllableSamples = SYLLABLE_SECONDS * SAMPLE_RATE;
+  for (let i = 0; i < samples; i++) {
+    const t = i / SAMPLE_RATE;
+    const syllable = Math.floor(i / syllableSamples);
+    const phase = (i % syllableSamples) / syllableSamples;
+    const envelope = Math.sin(Math.PI * phase);
+    // Vary the formants per syllable so different visemes show up
+    const f1 = 300 + (syllable * 137) % 500;
+    const f2 = 900 + (syllable * 311) % 1400;
+    const value = 0.5 * Math.sin(2 * Math.PI * 140 * t) + 0.3 * Math.sin(2 * Math.PI * f1 * t) + 0.2 * Math.sin(2 * Math.PI * f2 * t);
+    pcm[i] = Math.max(-1, Math.min(1, value * envelope * 0.6)) * 0x7FFF;
+  }
+  return encode(new Uint8Array(pcm.buffer));
+}
+
+/**
+ * Timings matching synthesizeMockSpeech: one syllable per non-whitespace character.
+ */
+function getMockWordTimings(text: string): WordTiming[] {
+  const syllableMs = SYLLABLE_SECONDS * 1000;
+  return Array.from(text.replace(/\s+/g, '')).map((char, i) => ({
+    text: char,
+    startMs: i * syllableMs,
+    endMs: (i + 1) * syllableMs,
+  }));
+}
+
+/**
+ * Offline adapter returning canned replies and synthesized PCM. Lets the app run
+ * without network access or an API key, and gives tests deterministic output.
+ */
+export class MockProvider implements ConversationProvider {
+  private replyIndex = 0;
+  private latencyMs: number;
+
+  constructor(latencyMs = 300) {
+    this.latencyMs = latencyMs;
+  }
+
+  private nextReply() {
+    const reply = CANNED_REPLIES[this.replyIndex % CANNED_REPLIES.length];
+    this.replyIndex++;
+    return reply;
+  }
+
+  async sendMessage(_text: string, _history: Message[]): Promise<string> {
+    await sleep(this.latencyMs);
+    return this.nextReply();
+  }
+
+  async *streamMessage(_text: string, _history: Message[]): AsyncIterable<string> {
+    await sleep(this.latencyMs);
+    // Stream a few characters at a time like a real model would
+    const reply = this.nextReply();
+    for (let i = 0; i < reply.length; i += 4) {
+      yield reply.slice(i, i + 4);
+      await sleep(60);
+    }
+  }
+
+  async synthesize(text: string): Promise<string | null> {
+    await sleep(this.latencyMs);
+    return text.trim() ? synthesizeMockSpeech(text) : null;
+  }
+
+  async synthesizeWithTimings(text: string): Promise<SynthesisResult | null> {
+    const audio = await this.synthesize(text);
+    return audio ? { audio, words: getMockWordTimings(text) } : null;
+  }
+
+  async connectLive(options: LiveConnectOptions, callbacks: LiveSessionCallbacks): Promise<LiveSession> {
+    let isOpen = true;
+    let isReplying = false;
+    let receivedMs = 0;
+
+    const reply = async () => {
+      if (isReplying) return;
+      isReplying = true;
+      callbacks.onEvent({ inputTranscript: '（语音输入）' });
+      // Spoken replies can't carry expression tags; use the tool instead when the session declares it
+      const { text, expressions } = stripExpressionTags(this.nextReply());
+      if (expressions.length && options.tools?.some(t => t.name === 'set_expression')) {
+        callbacks.onEvent({ toolCalls: [{ id: `mock-${Date.now()}`, name: 'set_expression', args: { name: expressions[0] } }] });
+      }
+      // Send transcript and audio sentence by sentence, like a streaming model
+      for (const sentence of text.split(/(?<=[。！？])/)) {
+        await sleep(this.latencyMs);
+        if (!isOpen) return;
+        callbacks.onEvent({ outputTranscript: sentence, audio: synthesizeMockSpeech(sentence) });
+      }
+      callbacks.onEvent({ turnComplete: true });
+      isReplying = false;
+    };
+
+    setTimeout(() => { if (isOpen) callbacks.onOpen(); }, this.latencyMs);
+
+    return {
+      sendRealtimeInput: (input: LiveRealtimeInput) => {
+        if (!isOpen) return;
+        if (input.audio) {
+          // 16-bit samples at 16kHz, base64 inflates by 4/3
+          receivedMs += (input.audio.data.length * 0.75) / 2 / 16;
+          if (options.automaticActivityDetection && receivedMs >= AUTO_TURN_MS) {
+            receivedMs = 0;
+            reply();
+          }
+        }
+        if (input.activityEnd) reply();
+      },
+      sendToolResponse: () => {
+        // Canned replies don't depend on tool results
+      },
+      close: () => {
+        if (!isOpen) return;
+        isOpen = false;
+        callbacks.onClose();
+      },
+    };
+  }
+}
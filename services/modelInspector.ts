@@ -0,0 +1,150 @@
+import { AnimationClip, Mesh, Object3D, SkinnedMesh, Texture } from 'three';
+import { VRM } from '@pixiv/three-vrm';
+import { HumanoidBoneName, LipSyncSupport, ModelLoadError, ModelReport, ModelTexture, ModelWarning, VISEME_NAMES } from '../types';
+import { HumanoidRig } from './humanoidRig';
+
+export const ARKIT_BLENDSHAPES = [
+  'browDownLeft', 'browDownRight', 'browInnerUp', 'browOuterUpLeft', 'browOuterUpRight',
+  'cheekPuff', 'cheekSquintLeft', 'cheekSquintRight',
+  'eyeBlinkLeft', 'eyeBlinkRight', 'eyeLookDownLeft', 'eyeLookDownRight', 'eyeLookInLeft', 'eyeLookInRight',
+  'eyeLookOutLeft', 'eyeLookOutRight', 'eyeLookUpLeft', 'eyeLookUpRight',
+  'eyeSquintLeft', 'eyeSquintRight', 'eyeWideLeft', 'eyeWideRight',
+  'jawForward', 'jawLeft', 'jawOpen', 'jawRight',
+  'mouthClose', 'mouthDimpleLeft', 'mouthDimpleRight', 'mouthFrownLeft', 'mouthFrownRight', 'mouthFunnel',
+  'mouthLeft', 'mouthLowerDownLeft', 'mouthLowerDownRight', 'mouthPressLeft', 'mouthPressRight', 'mouthPucker',
+  'mouthRight', 'mouthRollLower', 'mouthRollUpper', 'mouthShrugLower', 'mouthShrugUpper',
+  'mouthSmileLeft', 'mouthSmileRight', 'mouthStretchLeft', 'mouthStretchRight',
+  'mouthUpperUpLeft', 'mouthUpperUpRight', 'noseSneerLeft', 'noseSneerRight', 'tongueOut',
+];
+
+// The same morph names the avatar falls back to and blinks with
+const JAW_MORPHS = ['jawOpen', 'mouthOpen', 'mouth_open'];
+const BLINK_MORPHS = ['eyeBlinkLeft', 'eyeBlinkRight', 'eyesClosed', 'blink'];
+const VRM_MOUTH_PRESETS = ['aa', 'ih', 'ou', 'ee', 'oh'];
+// Bones the procedural animation moves; eyes are optional since gaze also works through blendshapes
+const ANIMATED_BONES: HumanoidBoneName[] = ['spine', 'neck', 'head', 'leftArm', 'leftForeArm', 'rightArm', 'rightForeArm'];
+
+// Above these, a model is likely too heavy for a web page that also runs speech and rendering
+const MAX_TEXTURE_SIZE = 2048;
+const MAX_TRIANGLES = 100_000;
+
+export interface InspectedModel {
+  scene: Object3D;
+  animations: AnimationClip[];
+  headMesh: SkinnedMesh | null; // the mesh the avatar animates the face on
+  rig: HumanoidRig;
+  vrm?: VRM;
+}
+
+function getTextures(scene: Object3D): ModelTexture[] {
+  const textures = new Map<string, ModelTexture>();
+  scene.traverse((node: any) => {
+    if (!node.isMesh) return;
+    const materials = Array.isArray(node.material) ? node.material : [node.material];
+    materials.forEach((material: any) => {
+      Object.values(material || {}).forEach((value: any) => {
+        const texture = value as Texture;
+        if (!texture?.isTexture || textures.has(texture.uuid)) return;
+        const image = texture.image as { width?: number, height?: number } | undefined;
+        textures.set(texture.uuid, { name: texture.name || material.name || node.name, width: image?.width ?? 0, height: image?.height ?? 0 });
+      });
+    });
+  });
+  return Array.from(textures.values());
+}
+
+function getPolycount(scene: Object3D): number {
+  let triangles = 0;
+  scene.traverse((node: any) => {
+    if (!node.isMesh) return;
+    const geometry = (node as Mesh).geometry;
+    triangles += Math.floor((geometry.index?.count ?? geometry.attributes.position?.count ?? 0) / 3);
+  });
+  return triangles;
+}
+
+/**
+ * Reports what a loaded model can do with this component, with a warning for each feature that
+ * won't work or may perform badly.
+ */
+export function inspectModel({ scene, animations, headMesh, rig, vrm }: InspectedModel): ModelReport {
+  const morphs = new Set(Object.keys(headMesh?.morphTargetDictionary || {}));
+  const vrmExpressions = new Set(vrm?.expressionManager?.expressions.map(e => e.expressionName) || []);
+
+  const visemes = VISEME_NAMES.filter(name => morphs.has(name)).length;
+  let lipSync: LipSyncSupport = 'none';
+  if (VRM_MOUTH_PRESETS.some(name => vrmExpressions.has(name))) lipSync = 'vrm';
+  else if (visemes > 0) lipSync = 'visemes';
+  else if (JAW_MORPHS.some(name => morphs.has(name))) lipSync = 'jaw';
+
+  const report: ModelReport = {
+    format: vrm ? 'vrm' : 'gltf',
+    lipSync,
+    visemes,
+    arkitBlendshapes: ARKIT_BLENDSHAPES.filter(name => morphs.has(name)).length,
+    eyeBlink: BLINK_MORPHS.some(name => morphs.has(name)) || vrmExpressions.has('blink'),
+    rigProfile: rig.profile,
+    bonesFound: (Object.keys(rig.bones) as HumanoidBoneName[]),
+    bonesMissing: rig.missing,
+    animations: animations.map(clip => clip.name),
+    polycount: getPolycount(scene),
+    textures: getTextures(scene),
+    warnings: [],
+  };
+
+  const warnings: ModelWarning[] = report.warnings;
+  if (lipSync === 'none') {
+    warnings.push({ code: 'no-lip-sync', message: '没有找到口型混合形状（viseme_*、jawOpen 或 VRM 的 aa/ih/ou/ee/oh），说话时嘴不会动。' });
+  } else if (lipSync === 'jaw') {
+    warnings.push({ code: 'partial-visemes', message: '没有 Oculus 口型 (viseme_*)，只能用张嘴混合形状近似口型。' });
+  } else if (lipSync === 'visemes' && visemes < VISEME_NAMES.length) {
+    const missing = VISEME_NAMES.filter(name => !morphs.has(name));
+    warnings.push({ code: 'partial-visemes', message: `缺少 ${missing.length} 个 Oculus 口型：${missing.join('、')}。` });
+  }
+  if (!report.eyeBlink) {
+    warnings.push({ code: 'no-blink', message: '没有眨眼混合形状 (eyeBlinkLeft/eyeBlinkRight 或 VRM blink)，模型不会眨眼。' });
+  }
+  if (report.bonesFound.length === 0) {
+    warnings.push({ code: 'no-skeleton', message: '没有识别出人形骨骼，头部、呼吸和手势动画都不会生效。可以通过 rig.bones 手动指定骨骼。' });
+  } else {
+    const missing = ANIMATED_BONES.filter(name => rig.missing.includes(name));
+    if (missing.length) {
+      warnings.push({ code: 'missing-bones', message: `没有找到骨骼：${missing.join('、')}，相关的视线和手势动画会缺失。` });
+    }
+  }
+  report.textures
+    .filter(texture => Math.max(texture.width, texture.height) > MAX_TEXTURE_SIZE)
+    .forEach(texture => {
+      warnings.push({ code: 'large-texture', message: `纹理 ${texture.name || '(未命名)'} 为 ${texture.width}×${texture.height}，超过 ${MAX_TEXTURE_SIZE}，会占用大量显存。` });
+    });
+  if (report.polycount > MAX_TRIANGLES) {
+    warnings.push({ code: 'high-polycount', message: `模型有 ${report.polycount.toLocaleString()} 个三角面，超过 ${MAX_TRIANGLES.toLocaleString()}，低端设备上可能卡顿。` });
+  }
+  return report;
+}
+
+/**
+ * Tells apart the ways loading a model fails. The loader only reports a message, so this goes by
+ * its wording: HTTP errors from three's FileLoader, and JSON parse errors from GLTFLoader.
+ */
+export function describeModelError(error: unknown): ModelLoadError {
+  const detail = error instanceof Error ? error.message : String(error);
+  const status = detail.match(/responded with (\d{3})/);
+  if (status) {
+    const code = Number(status[1]);
+    return code === 404 || code === 410
+      ? { kind: 'not-found', message: `找不到模型文件 (${code})。请检查地址，本地文件需要放在 public 文件夹中。`, detail }
+      : { kind: 'network', message: `服务器返回 ${code}，无法下载模型。`, detail };
+  }
+  if (/Failed to fetch|NetworkError|Load failed/i.test(detail)) {
+    return { kind: 'network', message: '无法下载模型，请检查网络连接或服务器的跨域 (CORS) 设置。', detail };
+  }
+  // Dev servers answer unknown paths with the app's index.html instead of a 404
+  if (/Unexpected token '?<|<!doctype/i.test(detail)) {
+    return { kind: 'not-found', message: '服务器返回的是网页而不是模型文件，地址可能不存在。', detail };
+  }
+  if (/Unexpected end of JSON input/i.test(detail)) {
+    return { kind: 'empty', message: '模型文件是空的。', detail };
+  }
+  return { kind: 'parse', message: '模型文件无法解析，可能已损坏或不是 glTF/GLB/VRM 格式。', detail };
+}
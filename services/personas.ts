@@ -0,0 +1,114 @@
+import { Background, ExpressionName, Persona } from '../types';
+import { isExpressionName } from './expressions';
+import { BACKGROUND_PRESETS } from './backgroundPresets';
+
+export const DEFAULT_PERSONA: Persona = {
+  id: 'assistant',
+  name: '数字助手',
+  systemInstruction: '你是一个乐于助人且富有表现力的3D数字形象。请用简洁和对话的方式回答。',
+  voiceName: 'Kore',
+  language: 'zh-CN',
+  expression: 'neutral',
+  modelUrl: '/default.glb',
+  background: BACKGROUND_PRESETS.mint.background,
+};
+
+export const PERSONA_PRESETS: Persona[] = [
+  DEFAULT_PERSONA,
+  {
+    id: 'english-tutor',
+    name: '英语老师',
+    systemInstruction: 'You are a patient English tutor. Keep replies short, and gently correct the learner\'s mistakes.',
+    voiceName: 'Puck',
+    language: 'en-US',
+    speakingStyle: 'Speak slowly and clearly, and encourage the learner.',
+    expression: 'happy',
+    modelUrl: '/default.glb',
+    background: BACKGROUND_PRESETS.dreamy.background,
+  },
+  {
+    id: 'receptionist',
+    name: '前台接待',
+    systemInstruction: '你是公司前台的接待员，负责欢迎访客、指引方向和回答常见问题。不知道的事情请如实说明，并建议访客咨询工作人员。',
+    voiceName: 'Aoede',
+    language: 'zh-CN',
+    speakingStyle: '礼貌、正式，每次回答不超过两句话。',
+    expression: 'neutral',
+    modelUrl: '/default.glb',
+    background: BACKGROUND_PRESETS.studio.background,
+  },
+];
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  zh: '中文', en: '英语', ja: '日语', ko: '韩语', fr: '法语', de: '德语', es: '西班牙语',
+};
+
+/**
+ * The persona's system instruction, with its language and speaking style spelled out for the model.
+ */
+export function getPersonaInstruction(persona: Persona): string {
+  const lines = [persona.systemInstruction.trim()];
+  if (persona.language) {
+    const name = LANGUAGE_NAMES[persona.language.split('-')[0].toLowerCase()] || persona.language;
+    lines.push(`请始终使用${name}回答。`);
+  }
+  if (persona.speakingStyle) lines.push(`说话风格：${persona.speakingStyle.trim()}`);
+  return lines.join('\n');
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const BACKGROUND_TYPES: Background['type'][] = ['color', 'image', 'hdri', 'gradient'];
+
+const isBackground = (value: unknown): value is Background =>
+  isRecord(value) && BACKGROUND_TYPES.includes(value.type as Background['type']) && isString(value.value);
+
+const isKnownExpression = (value: unknown): value is ExpressionName => typeof value === 'string' && isExpressionName(value);
+
+const isOptional = <T>(value: unknown, isType: (value: unknown) => value is T): value is T | undefined =>
+  value === undefined || isType(value);
+
+// A non-empty string field of an object, if there is one
+function optional(source: unknown, key: string): string | undefined {
+  const value = isRecord(source) ? source[key] : undefined;
+  return isString(value) ? value : undefined;
+}
+
+/**
+ * Reads a persona from JSON, e.g. a file exported with `exportPersona`. Throws with a
+ * readable message when required fields are missing or have the wrong type.
+ */
+export function parsePersona(json: string): Persona {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('人设文件不是有效的 JSON。');
+  }
+  if (!isRecord(data)) throw new Error('人设文件应该是一个 JSON 对象。');
+  const { name, systemInstruction, expression, background } = data;
+  if (!isString(name)) throw new Error('人设缺少 name。');
+  if (!isString(systemInstruction)) throw new Error('人设缺少 systemInstruction。');
+  if (!isOptional(expression, isKnownExpression)) throw new Error(`未知的表情：${String(expression)}。`);
+  if (!isOptional(background, isBackground)) throw new Error('人设的 background 应为 { type, value }。');
+
+  const models = { text: optional(data.models, 'text'), live: optional(data.models, 'live'), tts: optional(data.models, 'tts') };
+  return {
+    id: optional(data, 'id') || `persona-${Date.now()}`,
+    name,
+    systemInstruction,
+    voiceName: optional(data, 'voiceName'),
+    language: optional(data, 'language'),
+    speakingStyle: optional(data, 'speakingStyle'),
+    expression,
+    modelUrl: optional(data, 'modelUrl'),
+    background: background && { type: background.type, value: background.value },
+    models: Object.values(models).some(Boolean) ? models : undefined,
+  };
+}
+
+export function exportPersona(persona: Persona): string {
+  return JSON.stringify(persona, null, 2);
+}
@@ -0,0 +1,143 @@
+import { AudioBlob } from './audioUtils';
+import { Message, WordTiming } from '../types';
+
+// --- Conversation Provider Interfaces ---
+// GeminiService and DigitalHuman only talk to these interfaces, so an on-prem LLM/TTS
+// or the offline MockProvider can be swapped in for the Gemini adapter.
+
+// --- Function Calling ---
+
+/**
+ * A function the model may call. `parameters` is a JSON Schema object.
+ */
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolResult {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+/**
+ * Executes a tool call and returns the response sent back to the model.
+ */
+export type ToolHandler = (call: ToolCall) => Promise<Record<string, unknown>> | Record<string, unknown>;
+
+export async function runToolCalls(calls: ToolCall[], handler: ToolHandler): Promise<ToolResult[]> {
+  return Promise.all(calls.map(async (call) => {
+    try {
+      return { id: call.id, name: call.name, response: await handler(call) };
+    } catch (error) {
+      return { id: call.id, name: call.name, response: { error: String(error) } };
+    }
+  }));
+}
+
+export interface TextChatOptions {
+  systemInstruction?: string;
+  model?: string; // engine-specific model name; the provider's default when omitted
+  tools?: ToolDeclaration[];
+  // Text providers run the call/response loop themselves and only yield the final spoken text
+  onToolCall?: ToolHandler;
+}
+
+/**
+ * One-shot text chat: sends the history plus a new user turn and resolves with the full reply.
+ */
+export interface TextChatProvider {
+  sendMessage(text: string, history: Message[], options?: TextChatOptions): Promise<string>;
+}
+
+/**
+ * Streaming text chat: yields reply fragments as they are generated.
+ */
+export interface StreamingTextProvider {
+  streamMessage(text: string, history: Message[], options?: TextChatOptions): AsyncIterable<string>;
+}
+
+export interface SynthesisOptions {
+  voiceName?: string; // engine-specific voice, e.g. a Gemini prebuilt voice; the engine's default when omitted
+  model?: string;
+}
+
+export interface SynthesisResult {
+  audio: string; // base64 encoded 16-bit mono PCM at 24kHz
+  words?: WordTiming[];
+}
+
+/**
+ * Text-to-speech. Resolves with base64 encoded 16-bit mono PCM at 24kHz, or null when nothing was synthesized.
+ * Engines that know when each word is spoken can also implement `synthesizeWithTimings`, which captions prefer.
+ */
+export interface TtsProvider {
+  synthesize(text: string, options?: SynthesisOptions): Promise<string | null>;
+  synthesizeWithTimings?(text: string, options?: SynthesisOptions): Promise<SynthesisResult | null>;
+}
+
+export interface LiveConnectOptions {
+  systemInstruction: string;
+  model?: string;
+  voiceName?: string;
+  languageCode?: string; // BCP 47, the language the session is spoken in
+  // When false the client sends explicit activityStart/activityEnd markers (push-to-talk, local VAD)
+  automaticActivityDetection: boolean;
+  tools?: ToolDeclaration[];
+  resumptionHandle?: string; // continue an earlier session, from LiveServerEvent.resumptionHandle
+}
+
+/**
+ * A provider-neutral view of one server message in a live duplex session.
+ */
+export interface LiveServerEvent {
+  audio?: string; // base64 PCM, 24kHz mono
+  inputTranscript?: string;
+  outputTranscript?: string;
+  interrupted?: boolean;
+  turnComplete?: boolean;
+  toolCalls?: ToolCall[]; // answer with LiveSession.sendToolResponse
+  resumptionHandle?: string; // the latest point the session can be resumed from after a reconnect
+  goAwayMs?: number; // the server will close the connection in this many ms
+}
+
+export interface LiveRealtimeInput {
+  audio?: AudioBlob; // 16kHz PCM from the microphone
+  activityStart?: boolean;
+  activityEnd?: boolean;
+}
+
+export interface LiveCloseInfo {
+  code?: number; // WebSocket close code
+  reason?: string;
+}
+
+export interface LiveSessionCallbacks {
+  onOpen: () => void;
+  onEvent: (event: LiveServerEvent) => void;
+  onClose: (info?: LiveCloseInfo) => void;
+  onError: (error: unknown) => void;
+}
+
+export interface LiveSession {
+  sendRealtimeInput(input: LiveRealtimeInput): void;
+  sendToolResponse(results: ToolResult[]): void;
+  close(): void;
+}
+
+/**
+ * Live duplex audio: microphone audio goes up, spoken replies and transcripts come back.
+ */
+export interface LiveAudioProvider {
+  connectLive(options: LiveConnectOptions, callbacks: LiveSessionCallbacks): Promise<LiveSession>;
+}
+
+export interface ConversationProvider extends TextChatProvider, StreamingTextProvider, TtsProvider, LiveAudioProvider {}
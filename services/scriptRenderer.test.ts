@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { AvatarScript } from '../types';
+import { encodeWav } from './audioUtils';
+import { GazeController } from './gazeController';
+import { MockProvider } from './mockProvider';
+import { createRandom } from './random';
+import { PreparedScript, prepareScript } from './scriptRenderer';
+
+const SCRIPT: AvatarScript = {
+  seed: 42,
+  lines: [
+    { text: '大家好，欢迎收看。', expression: 'happy' },
+    { text: '今天我们来聊聊数字人。', lookAt: 'left', pauseMs: 600 },
+  ],
+};
+
+// Eye movement over the script's frames, drawn from the script's seed
+function sampleGaze(prepared: PreparedScript) {
+  const gaze = new GazeController(createRandom(prepared.seed));
+  return Array.from({ length: prepared.frameCount }, () => gaze.update({ yaw: 0, pitch: 0 }, 1 / prepared.fps));
+}
+
+async function render(script: AvatarScript) {
+  const prepared = await prepareScript(script, new MockProvider(0));
+  const wav = new Uint8Array(await encodeWav(prepared.audio, prepared.sampleRate).arrayBuffer());
+  return { prepared, gaze: sampleGaze(prepared), wav };
+}
+
+describe('prepareScript', () => {
+  it('comes out the same for the same script and seed', async () => {
+    const first = await render(SCRIPT);
+    const second = await render(SCRIPT);
+
+    expect(first.prepared.visemes.some(weights => Object.values(weights).some(w => w > 0))).toBe(true);
+    expect(second.prepared.visemes).toEqual(first.prepared.visemes);
+    expect(second.prepared.cues).toEqual(first.prepared.cues);
+    expect(second.gaze).toEqual(first.gaze);
+    expect(second.wav).toEqual(first.wav);
+  });
+
+  it('draws different eye movement from a different seed', async () => {
+    const first = await render(SCRIPT);
+    const reseeded = await render({ ...SCRIPT, seed: 7 });
+
+    expect(reseeded.prepared.visemes).toEqual(first.prepared.visemes);
+    expect(reseeded.gaze).not.toEqual(first.gaze);
+  });
+});
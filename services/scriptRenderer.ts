@@ -0,0 +1,124 @@
+import { AvatarScript, ScriptLine, VisemeWeights } from '../types';
+import { SynthesisOptions, TtsProvider } from './providers';
+import { decode, decodePcm16, encodeWav } from './audioUtils';
+import { OUTPUT_SAMPLE_RATE } from './audioService';
+import { computeVisemeTrack } from './visemeTrack';
+
+const DEFAULT_FPS = 30;
+const DEFAULT_LEAD_IN_MS = 500;
+const DEFAULT_PAUSE_MS = 400;
+export const DEFAULT_SCRIPT_SEED = 1;
+
+// When each line is heard in the rendered audio
+export interface ScriptLineTiming {
+  text: string;
+  startMs: number;
+  endMs: number;
+}
+
+export interface ScriptCue extends ScriptLineTiming {
+  line: ScriptLine;
+  frame: number; // the first frame the line is heard on; its cues are applied before it renders
+}
+
+/**
+ * Everything about a script that doesn't need the scene: the full soundtrack, where each line
+ * starts and the mouth shapes for every frame.
+ */
+export interface PreparedScript {
+  fps: number;
+  seed: number;
+  sampleRate: number;
+  frameCount: number;
+  audio: Float32Array;
+  visemes: VisemeWeights[]; // one per frame
+  cues: ScriptCue[];
+}
+
+export interface ScriptRenderOptions {
+  // Called with each frame in order; frames are not collected in the result when it is set,
+  // so long scripts can be written out as they render
+  onFrame?: (frame: Blob, index: number, frameCount: number) => void | Promise<void>;
+  signal?: AbortSignal;
+}
+
+export interface ScriptRenderResult {
+  fps: number;
+  frameCount: number;
+  frames: Blob[]; // PNG images, empty when onFrame was given
+  audio: Blob; // WAV of the whole soundtrack, starting with frame 0
+  lines: ScriptLineTiming[];
+}
+
+// What the renderer needs from the scene: apply a line's cues, and render one frame
+export interface ScriptFrameDriver {
+  applyCue(cue: ScriptCue): void;
+  renderFrame(visemes: VisemeWeights, timeSeconds: number): Promise<Blob>;
+}
+
+const silence = (ms: number) => new Float32Array(Math.round((ms / 1000) * OUTPUT_SAMPLE_RATE));
+
+/**
+ * Synthesizes every line, one after the other, and lays them out on a single timeline with the
+ * lead-in and pauses in between. The result only depends on the script and what the TTS returns.
+ */
+export async function prepareScript(script: AvatarScript, tts: TtsProvider, synthesis: SynthesisOptions = {}): Promise<PreparedScript> {
+  if (!script.lines.length) throw new Error('脚本没有任何台词。');
+  const fps = script.fps || DEFAULT_FPS;
+  const parts: Float32Array[] = [silence(script.leadInMs ?? DEFAULT_LEAD_IN_MS)];
+  let length = parts[0].length;
+  const cues: ScriptCue[] = [];
+
+  for (const [index, line] of script.lines.entries()) {
+    const base64 = await tts.synthesize(line.text, synthesis);
+    if (!base64) throw new Error(`第 ${index + 1} 句台词语音合成失败。`);
+    const samples = decodePcm16(decode(base64));
+    const startMs = (length / OUTPUT_SAMPLE_RATE) * 1000;
+    const endMs = ((length + samples.length) / OUTPUT_SAMPLE_RATE) * 1000;
+    cues.push({ text: line.text, startMs, endMs, line, frame: Math.round((startMs / 1000) * fps) });
+    const pause = silence(line.pauseMs ?? DEFAULT_PAUSE_MS);
+    parts.push(samples, pause);
+    length += samples.length + pause.length;
+  }
+
+  const audio = new Float32Array(length);
+  parts.reduce((offset, part) => {
+    audio.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  const frameCount = Math.ceil((length / OUTPUT_SAMPLE_RATE) * fps);
+  return {
+    fps,
+    seed: script.seed ?? DEFAULT_SCRIPT_SEED,
+    sampleRate: OUTPUT_SAMPLE_RATE,
+    frameCount,
+    audio,
+    visemes: computeVisemeTrack(audio, OUTPUT_SAMPLE_RATE, fps, frameCount),
+    cues,
+  };
+}
+
+/**
+ * Steps through a prepared script one frame at a time: each line's cues go in on its first frame,
+ * then the scene renders at exactly that frame's time.
+ */
+export async function renderScriptFrames(prepared: PreparedScript, driver: ScriptFrameDriver, options: ScriptRenderOptions = {}): Promise<ScriptRenderResult> {
+  const frames: Blob[] = [];
+  let nextCue = 0;
+  for (let index = 0; index < prepared.frameCount; index++) {
+    options.signal?.throwIfAborted();
+    while (nextCue < prepared.cues.length && prepared.cues[nextCue].frame <= index) {
+      driver.applyCue(prepared.cues[nextCue++]);
+    }
+    const frame = await driver.renderFrame(prepared.visemes[index], index / prepared.fps);
+    if (options.onFrame) await options.onFrame(frame, index, prepared.frameCount);
+    else frames.push(frame);
+  }
+  return {
+    fps: prepared.fps,
+    frameCount: prepared.frameCount,
+    frames,
+    audio: encodeWav(prepared.audio, prepared.sampleRate),
+    lines: prepared.cues.map(({ text, startMs, endMs }) => ({ text, startMs, endMs })),
+  };
+}
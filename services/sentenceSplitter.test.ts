@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { SentenceSplitter } from './sentenceSplitter';
+
+describe('SentenceSplitter', () => {
+  it('splits on Chinese punctuation and keeps the unfinished rest', () => {
+    const splitter = new SentenceSplitter();
+    expect(splitter.push('今天天气很好。你想出去走走吗？我们可以去公园！然后')).toEqual([
+      '今天天气很好。', '你想出去走走吗？', '我们可以去公园！',
+    ]);
+    expect(splitter.flush()).toBe('然后');
+    expect(splitter.flush()).toBeNull();
+  });
+
+  it('splits on English punctuation followed by whitespace', () => {
+    const splitter = new SentenceSplitter();
+    expect(splitter.push('Hello there. How are you? I am fine! And')).toEqual(['Hello there.', 'How are you?', 'I am fine!']);
+  });
+
+  it('does not cut decimals or abbreviations', () => {
+    const splitter = new SentenceSplitter();
+    expect(splitter.push('Pi is about 3.14 today. Dr. Li and Mr. Wang agree, e.g. on this. Next')).toEqual([
+      'Pi is about 3.14 today.', 'Dr. Li and Mr. Wang agree, e.g. on this.',
+    ]);
+  });
+
+  it('waits for closing punctuation that may arrive in the next fragment', () => {
+    const splitter = new SentenceSplitter();
+    expect(splitter.push('他说：“真的吗？')).toEqual([]);
+    expect(splitter.push('”太好了')).toEqual(['他说：“真的吗？”']);
+    expect(splitter.push('！！')).toEqual([]);
+    expect(splitter.flush()).toBe('太好了！！');
+  });
+
+  it('merges sentences shorter than minLength into the next one', () => {
+    const splitter = new SentenceSplitter(4);
+    expect(splitter.push('好。今天天气很好。明')).toEqual(['好。今天天气很好。']);
+  });
+});
@@ -0,0 +1,65 @@
+// Characters that always end a sentence, including full-width Chinese punctuation
+const TERMINATORS = '。！？!?；;…\n';
+// Characters that may trail a terminator and belong to the same sentence
+const CLOSERS = '。！？!?…."\'”’）)】」』';
+// Words whose trailing '.' is part of the word rather than the end of a sentence
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'e.g', 'i.e']);
+
+const endsWithAbbreviation = (text: string) => ABBREVIATIONS.has(text.match(/[A-Za-z.]*$/)![0].toLowerCase());
+
+/**
+ * Splits streamed text into sentences as soon as they are complete, so each one can be
+ * sent to TTS while the rest of the reply is still generating. A '.' only ends a sentence
+ * when followed by whitespace and not after an abbreviation, so "3.14" and "Dr. Li" are not
+ * cut. Sentences shorter than `minLength` are merged into the next one to avoid a TTS
+ * round-trip for "好。".
+ */
+export class SentenceSplitter {
+  private buffer = '';
+  private minLength: number;
+
+  constructor(minLength = 4) {
+    this.minLength = minLength;
+  }
+
+  /**
+   * Adds a fragment and returns every sentence it completed.
+   */
+  push(fragment: string): string[] {
+    this.buffer += fragment;
+    const sentences: string[] = [];
+    let start = 0;
+
+    for (let i = 0; i < this.buffer.length; i++) {
+      const ch = this.buffer[i];
+      const next = this.buffer[i + 1];
+      const isEnd = TERMINATORS.includes(ch)
+        || (ch === '.' && next !== undefined && /\s/.test(next) && !endsWithAbbreviation(this.buffer.slice(start, i)));
+      if (!isEnd) continue;
+
+      let end = i + 1;
+      while (end < this.buffer.length && CLOSERS.includes(this.buffer[end])) end++;
+      // A closing quote or another "！" may still arrive in the next fragment
+      if (end === this.buffer.length && ch !== '\n') break;
+
+      const sentence = this.buffer.slice(start, end).trim();
+      if (sentence.length >= this.minLength) {
+        sentences.push(sentence);
+        start = end;
+      }
+      i = end - 1;
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return sentences;
+  }
+
+  /**
+   * Returns whatever is left once the stream has ended.
+   */
+  flush(): string | null {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest || null;
+  }
+}
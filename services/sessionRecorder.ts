@@ -0,0 +1,254 @@
+import { RootState, addAfterEffect } from '@react-three/fiber';
+import { HalfFloatType, PerspectiveCamera, WebGLRenderTarget } from 'three';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { Background } from '../types';
+
+export interface RecordingOptions {
+  width?: number; // output size in pixels, rendered offscreen; defaults to the canvas size
+  height?: number;
+  fps?: number; // defaults to 30
+  transparent?: boolean; // keep the alpha channel instead of painting the background behind the avatar
+  background?: Background; // painted behind the canvas; gradients are CSS and not part of the canvas itself
+  mimeType?: string; // defaults to the first supported of RECORDING_MIME_TYPES
+  videoBitsPerSecond?: number;
+}
+
+export type FrameOptions = Pick<RecordingOptions, 'width' | 'height' | 'transparent' | 'background'>;
+
+export type RecorderState = 'inactive' | 'recording' | 'paused';
+
+// In order of preference. Only VP8/VP9 WebM can carry an alpha channel.
+const RECORDING_MIME_TYPES = ['video/mp4;codecs=avc1,mp4a.40.2', 'video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+const TRANSPARENT_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus'];
+const DEFAULT_FPS = 30;
+const DEFAULT_VIDEO_BITRATE = 8_000_000;
+
+export function getSupportedRecordingType(transparent = false): string | undefined {
+  if (typeof MediaRecorder === 'undefined') return undefined;
+  return (transparent ? TRANSPARENT_MIME_TYPES : RECORDING_MIME_TYPES).find(type => MediaRecorder.isTypeSupported(type));
+}
+
+// Turns a CSS linear-gradient such as the background presets into a canvas gradient
+function toCanvasGradient(ctx: CanvasRenderingContext2D, css: string, width: number, height: number): CanvasGradient | null {
+  const match = css.match(/linear-gradient\((.*)\)/);
+  if (!match) return null;
+  const parts = match[1].split(/,(?![^(]*\))/).map(part => part.trim());
+  const angleMatch = parts[0].match(/^(-?[\d.]+)deg$/);
+  const angle = ((angleMatch ? parseFloat(angleMatch[1]) : 180) * Math.PI) / 180;
+  const stops = angleMatch ? parts.slice(1) : parts;
+  // CSS angles point up at 0deg and turn clockwise; the line spans the box's projection on it
+  const dx = Math.sin(angle), dy = -Math.cos(angle);
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  const gradient = ctx.createLinearGradient(width / 2 - dx * half, height / 2 - dy * half, width / 2 + dx * half, height / 2 + dy * half);
+  stops.forEach((stop, i) => {
+    const [, color, offset] = stop.match(/^(.*?)\s*(?:([\d.]+)%)?$/) || [];
+    gradient.addColorStop(offset ? parseFloat(offset) / 100 : i / Math.max(1, stops.length - 1), color);
+  });
+  return gradient;
+}
+
+/**
+ * Renders the scene a second time at a fixed size, into render targets rather than the page's
+ * canvas, so the output size doesn't depend on the window. The camera keeps its vertical field of
+ * view and takes the output's aspect ratio.
+ */
+class OffscreenRenderer {
+  readonly canvas: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D;
+  // Lit in linear half floats, then tone mapped and sRGB-encoded like the page's canvas
+  private sceneTarget: WebGLRenderTarget;
+  private outputTarget: WebGLRenderTarget;
+  private outputPass = new OutputPass();
+  private camera = new PerspectiveCamera();
+  private pixels: Uint8Array;
+  private image: ImageData;
+
+  constructor(width: number, height: number) {
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.context = this.canvas.getContext('2d')!;
+    this.sceneTarget = new WebGLRenderTarget(width, height, { type: HalfFloatType, samples: 4 });
+    this.outputTarget = new WebGLRenderTarget(width, height);
+    this.pixels = new Uint8Array(width * height * 4);
+    this.image = this.context.createImageData(width, height);
+  }
+
+  render({ gl, scene, camera }: RootState) {
+    const { width, height } = this.canvas;
+    let view = camera;
+    if (camera instanceof PerspectiveCamera) {
+      view = this.camera.copy(camera, false);
+      this.camera.aspect = width / height;
+      this.camera.updateProjectionMatrix();
+    }
+
+    const previousTarget = gl.getRenderTarget();
+    gl.setRenderTarget(this.sceneTarget);
+    gl.render(scene, view);
+    this.outputPass.render(gl, this.outputTarget, this.sceneTarget, 0, false);
+    gl.readRenderTargetPixels(this.outputTarget, 0, 0, width, height, this.pixels);
+    gl.setRenderTarget(previousTarget);
+
+    // WebGL rows run bottom to top
+    const rowLength = width * 4;
+    for (let y = 0; y < height; y++) {
+      const row = (height - 1 - y) * rowLength;
+      this.image.data.set(this.pixels.subarray(row, row + rowLength), y * rowLength);
+    }
+    this.context.putImageData(this.image, 0, 0);
+  }
+
+  dispose() {
+    this.sceneTarget.dispose();
+    this.outputTarget.dispose();
+    this.outputPass.dispose();
+  }
+}
+
+/**
+ * Copies the avatar's canvas onto an output canvas, with the background painted behind it unless
+ * the output is transparent. With a width or height the scene is rendered offscreen at that size
+ * instead, leaving the canvas on the page as it is. Draw right after three.js rendered, while the
+ * WebGL drawing buffer still holds the frame.
+ */
+export class FrameCompositor {
+  readonly canvas: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D;
+  private fill: string | CanvasGradient | null = null;
+  private getState: () => RootState;
+  private offscreen: OffscreenRenderer | null = null;
+
+  constructor(getState: () => RootState, options: FrameOptions = {}) {
+    this.getState = getState;
+    const source = getState().gl.domElement;
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = options.width || source.width;
+    this.canvas.height = options.height || source.height;
+    this.context = this.canvas.getContext('2d')!;
+    if (options.width || options.height) this.offscreen = new OffscreenRenderer(this.canvas.width, this.canvas.height);
+
+    const { background } = options;
+    if (!options.transparent && background) {
+      this.fill = background.type === 'gradient'
+        ? toCanvasGradient(this.context, background.value, this.canvas.width, this.canvas.height)
+        : background.type === 'color' ? background.value : null;
+    }
+  }
+
+  draw() {
+    const { width, height } = this.canvas;
+    const state = this.getState();
+    this.offscreen?.render(state);
+    this.context.clearRect(0, 0, width, height);
+    if (this.fill) {
+      this.context.fillStyle = this.fill;
+      this.context.fillRect(0, 0, width, height);
+    }
+    this.context.drawImage(this.offscreen?.canvas ?? state.gl.domElement, 0, 0, width, height);
+  }
+
+  /**
+   * The last drawn frame as a PNG, which keeps the alpha channel of transparent output.
+   */
+  toBlob(): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      this.canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('无法编码画面帧。')), 'image/png');
+    });
+  }
+
+  dispose() {
+    this.offscreen?.dispose();
+  }
+}
+
+/**
+ * Records the avatar's canvas and audio into one video file. Each rendered frame goes through a
+ * FrameCompositor, and all audio streams are mixed into a single track.
+ */
+export class SessionRecorder {
+  private frames: FrameCompositor;
+  private audioContext: AudioContext;
+  private recorder: MediaRecorder;
+  private chunks: Blob[] = [];
+  private stopRendering: (() => void) | null = null;
+  readonly mimeType: string;
+
+  constructor(getState: () => RootState, audioStreams: MediaStream[], options: RecordingOptions = {}) {
+    this.frames = new FrameCompositor(getState, options);
+
+    // MediaRecorder only records one audio track, so several avatars are mixed first
+    this.audioContext = new AudioContext();
+    const mix = this.audioContext.createMediaStreamDestination();
+    audioStreams.forEach(stream => this.audioContext.createMediaStreamSource(stream).connect(mix));
+
+    const stream = new MediaStream([
+      ...this.frames.canvas.captureStream(options.fps || DEFAULT_FPS).getVideoTracks(),
+      ...mix.stream.getAudioTracks(),
+    ]);
+    const mimeType = options.mimeType || getSupportedRecordingType(options.transparent);
+    this.recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: options.videoBitsPerSecond || DEFAULT_VIDEO_BITRATE });
+    this.mimeType = this.recorder.mimeType || mimeType || 'video/webm';
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+  }
+
+  get state(): RecorderState {
+    return this.recorder.state;
+  }
+
+  start() {
+    if (this.recorder.state !== 'inactive') return;
+    this.audioContext.resume();
+    // Copy right after three.js rendered, while the WebGL drawing buffer still holds the frame
+    this.stopRendering = addAfterEffect(() => this.drawFrame());
+    this.recorder.start(1000);
+  }
+
+  pause() {
+    if (this.recorder.state === 'recording') this.recorder.pause();
+  }
+
+  resume() {
+    if (this.recorder.state === 'paused') this.recorder.resume();
+  }
+
+  /**
+   * Finishes the recording and resolves with the video file.
+   */
+  stop(): Promise<Blob> {
+    return new Promise((resolve) => {
+      const finish = () => {
+        this.stopRendering?.();
+        this.stopRendering = null;
+        this.frames.dispose();
+        this.audioContext.close();
+        resolve(new Blob(this.chunks, { type: this.mimeType }));
+      };
+      if (this.recorder.state === 'inactive') {
+        finish();
+        return;
+      }
+      this.recorder.onstop = finish;
+      this.recorder.stop();
+    });
+  }
+
+  private drawFrame() {
+    if (this.recorder.state === 'recording') this.frames.draw();
+  }
+}
+
+/**
+ * Saves a recording through the browser's download prompt.
+ */
+export function downloadRecording(blob: Blob, name = `avatar-${Date.now()}`) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name}.${blob.type.includes('mp4') ? 'mp4' : 'webm'}`;
+  link.click();
+  // Revoking right away cancels the download in Firefox and Safari
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
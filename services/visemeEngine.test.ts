@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { VISEME_NAMES } from '../types';
+import { ANALYSER_FFT_SIZE, VisemeEngine, createSilentVisemes, getJawOpen } from './visemeEngine';
+
+const SAMPLE_RATE = 24000;
+const BIN_HZ = SAMPLE_RATE / ANALYSER_FFT_SIZE;
+
+// A sine wave around the analyser's 128 midpoint, `amplitude` from 0 to 1
+function waveform(amplitude: number) {
+  return Uint8Array.from({ length: ANALYSER_FFT_SIZE }, (_, i) => 128 + Math.round(127 * amplitude * Math.sin(i / 4)));
+}
+
+// A spectrum with energy only between `lo` and `hi`, peaking at `peakHz`
+function spectrum(lo: number, hi: number, peakHz: number) {
+  const data = new Uint8Array(ANALYSER_FFT_SIZE / 2);
+  for (let i = Math.floor(lo / BIN_HZ); i < Math.ceil(hi / BIN_HZ); i++) data[i] = 160;
+  data[Math.round(peakHz / BIN_HZ)] = 255;
+  return data;
+}
+
+const strongest = (weights: Record<string, number>) => Object.entries(weights).sort((a, b) => b[1] - a[1])[0][0];
+
+describe('VisemeEngine', () => {
+  it('stays closed and returns the same weights for silence', () => {
+    const engine = new VisemeEngine();
+    const silence = waveform(0);
+    const first = engine.analyse(new Uint8Array(ANALYSER_FFT_SIZE / 2), silence, SAMPLE_RATE);
+    expect(first).toEqual(createSilentVisemes());
+    expect(engine.analyse(new Uint8Array(ANALYSER_FFT_SIZE / 2), silence, SAMPLE_RATE)).toBe(first);
+    expect(getJawOpen(first)).toBe(0);
+  });
+
+  it('closes the lips on a voiced onset, then opens into the vowel', () => {
+    const engine = new VisemeEngine();
+    engine.analyse(new Uint8Array(ANALYSER_FFT_SIZE / 2), waveform(0), SAMPLE_RATE);
+    // Low, voiced energy with F1 at 700Hz and nothing higher: an "o" after a plosive
+    const vowel = spectrum(150, 900, 700);
+    const onset = engine.analyse(vowel, waveform(0.1), SAMPLE_RATE);
+    expect(onset.viseme_PP).toBeGreaterThan(0.3);
+    expect(onset.viseme_sil).toBeLessThan(1);
+
+    let weights = onset;
+    for (let i = 0; i < 20; i++) weights = engine.analyse(vowel, waveform(0.1), SAMPLE_RATE);
+    expect(strongest(weights)).toBe('viseme_O');
+    expect(weights.viseme_PP).toBeLessThan(0.05);
+    expect(getJawOpen(weights)).toBeGreaterThan(0.4);
+  });
+
+  it('eases out instead of snapping shut when the sound stops', () => {
+    const engine = new VisemeEngine();
+    const vowel = spectrum(150, 900, 700);
+    for (let i = 0; i < 20; i++) engine.analyse(vowel, waveform(0.1), SAMPLE_RATE);
+    const open = getJawOpen(engine.analyse(vowel, waveform(0.1), SAMPLE_RATE));
+    const closing = engine.analyse(new Uint8Array(ANALYSER_FFT_SIZE / 2), waveform(0), SAMPLE_RATE);
+    expect(getJawOpen(closing)).toBeGreaterThan(0);
+    expect(getJawOpen(closing)).toBeLessThan(open);
+    VISEME_NAMES.forEach(name => expect(closing[name]).toBeGreaterThanOrEqual(0));
+  });
+});
@@ -0,0 +1,191 @@
+import { VISEME_NAMES, VisemeName, VisemeWeights } from '../types';
+
+/**
+ * Creates a weight set where only the silence viseme is active.
+ */
+export function createSilentVisemes(): VisemeWeights {
+  const weights = {} as VisemeWeights;
+  VISEME_NAMES.forEach(name => { weights[name] = 0; });
+  weights.viseme_sil = 1;
+  return weights;
+}
+
+// How far the jaw drops for each viseme, used when a model only has a single mouth-open morph.
+const JAW_OPEN_AMOUNT: Record<VisemeName, number> = {
+  viseme_sil: 0, viseme_PP: 0, viseme_FF: 0.15, viseme_TH: 0.25, viseme_DD: 0.3,
+  viseme_kk: 0.35, viseme_CH: 0.3, viseme_SS: 0.2, viseme_nn: 0.2, viseme_RR: 0.35,
+  viseme_aa: 1, viseme_E: 0.6, viseme_I: 0.4, viseme_O: 0.75, viseme_U: 0.35,
+};
+
+/**
+ * Collapses a viseme weight set into a single 0-1 mouth-open amount.
+ */
+export function getJawOpen(weights: VisemeWeights): number {
+  let open = 0;
+  VISEME_NAMES.forEach(name => { open += weights[name] * JAW_OPEN_AMOUNT[name]; });
+  return Math.min(1, open);
+}
+
+// Vowel prototypes in normalised (openness from F1, frontness from F2) space.
+const VOWEL_PROTOTYPES: [VisemeName, number, number][] = [
+  ['viseme_aa', 1.0, 0.45],
+  ['viseme_E', 0.55, 0.8],
+  ['viseme_I', 0.15, 1.0],
+  ['viseme_O', 0.6, 0.1],
+  ['viseme_U', 0.1, 0.05],
+];
+
+// Analyser settings the engine is tuned for. A larger FFT gives ~23Hz bins at 24kHz, enough to
+// locate the first two formants
+export const ANALYSER_FFT_SIZE = 1024;
+export const ANALYSER_SMOOTHING = 0.5;
+
+const SILENCE_LEVEL = 0.04;
+const ONSET_JUMP = 0.15;
+// Time constants (seconds) for coarticulation smoothing: mouth shapes form quickly and relax slowly.
+const ATTACK_TAU = 0.03;
+const RELEASE_TAU = 0.08;
+const CHANGE_EPSILON = 0.001;
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/**
+ * Estimates per-frame viseme weights from the spectrum of the outgoing audio.
+ * There is no phoneme recogniser here: formant peaks (F1/F2) classify vowels,
+ * high-band energy classifies fricatives and sudden onsets stand in for plosives.
+ * Results are smoothed with separate attack/release rates so neighbouring
+ * shapes blend into each other the way real mouths coarticulate.
+ */
+export class VisemeEngine {
+  private current: VisemeWeights = createSilentVisemes();
+  private previousLevel = 0;
+
+  /**
+   * Loudness (0-1) of the most recently analysed frame.
+   */
+  get level() {
+    return this.previousLevel;
+  }
+
+  reset() {
+    this.current = createSilentVisemes();
+    this.previousLevel = 0;
+  }
+
+  /**
+   * Analyses one analyser frame. Returns the same object as the previous call
+   * when nothing changed noticeably, so callers can skip redundant updates.
+   */
+  analyse(frequencyData: Uint8Array, timeDomainData: Uint8Array, sampleRate: number, deltaSeconds = 1 / 60): VisemeWeights {
+    const target = this.classify(frequencyData, timeDomainData, sampleRate);
+    return this.smooth(target, deltaSeconds);
+  }
+
+  private classify(frequencyData: Uint8Array, timeDomainData: Uint8Array, sampleRate: number): VisemeWeights {
+    const target = createSilentVisemes();
+
+    let sum = 0;
+    for (let i = 0; i < timeDomainData.length; i++) {
+      const v = (timeDomainData[i] - 128) / 128;
+      sum += v * v;
+    }
+    const level = Math.min(1, Math.sqrt(sum / timeDomainData.length) * 8);
+    const previousLevel = this.previousLevel;
+    this.previousLevel = level;
+
+    if (level < SILENCE_LEVEL) return target;
+
+    const binHz = sampleRate / (frequencyData.length * 2);
+    const band = (lo: number, hi: number) => {
+      const start = Math.max(0, Math.floor(lo / binHz));
+      const end = Math.min(frequencyData.length, Math.ceil(hi / binHz));
+      let energy = 0;
+      for (let i = start; i < end; i++) energy += frequencyData[i] / 255;
+      return end > start ? energy / (end - start) : 0;
+    };
+    const peak = (lo: number, hi: number) => {
+      const start = Math.max(0, Math.floor(lo / binHz));
+      const end = Math.min(frequencyData.length, Math.ceil(hi / binHz));
+      let best = start;
+      for (let i = start; i < end; i++) {
+        if (frequencyData[i] > frequencyData[best]) best = i;
+      }
+      return best * binHz;
+    };
+
+    const low = band(150, 900);
+    const mid = band(900, 2500);
+    const high = band(2500, 4500);
+    const fric = band(4500, sampleRate / 2);
+    const total = low + mid + high + fric + 1e-6;
+
+    const voicing = clamp01((low + mid) / total);
+    const friction = clamp01((high + fric) / total);
+
+    // --- Vowels from formant positions ---
+    const openness = clamp01((peak(200, 1000) - 250) / 550);
+    const frontness = clamp01((peak(900, 3000) - 900) / 1500);
+    const vowelScores = VOWEL_PROTOTYPES.map(([name, o, f]) => {
+      const d = (openness - o) ** 2 + (frontness - f) ** 2;
+      return [name, Math.exp(-d / 0.08)] as const;
+    });
+    const vowelTotal = vowelScores.reduce((acc, [, s]) => acc + s, 0) + 1e-6;
+
+    // --- Consonants ---
+    const consonants: Partial<Record<VisemeName, number>> = {};
+    const onset = level - previousLevel > ONSET_JUMP && previousLevel < SILENCE_LEVEL * 2;
+    if (onset) {
+      if (friction > 0.5) consonants.viseme_DD = 1;
+      else if (low / total > 0.6) consonants.viseme_PP = 1;
+      else consonants.viseme_kk = 1;
+    }
+    if (friction > 0.35) {
+      const sibilance = clamp01(fric / (high + fric + 1e-6));
+      consonants.viseme_SS = friction * sibilance;
+      consonants.viseme_CH = friction * (1 - sibilance) * 0.8;
+      consonants.viseme_FF = friction * (1 - level) * 0.5;
+      consonants.viseme_TH = friction * (1 - level) * 0.25;
+    }
+    if (low / total > 0.75 && level < 0.25) {
+      consonants.viseme_nn = voicing * 0.8;
+    }
+    consonants.viseme_RR = voicing * clamp01(mid / total) * (1 - frontness) * 0.4;
+
+    const consonantTotal = Object.values(consonants).reduce((acc, v) => acc + (v || 0), 0);
+    const vowelShare = clamp01(1 - consonantTotal) * voicing;
+    const loudness = Math.min(1, level * 1.5);
+
+    target.viseme_sil = 0;
+    vowelScores.forEach(([name, score]) => {
+      target[name] = (score / vowelTotal) * vowelShare * loudness;
+    });
+    (Object.keys(consonants) as VisemeName[]).forEach(name => {
+      target[name] = Math.min(1, consonants[name] || 0);
+    });
+
+    // Keep the combined shape within a single full mouth pose
+    const targetTotal = VISEME_NAMES.reduce((acc, name) => acc + target[name], 0);
+    if (targetTotal > 1) {
+      VISEME_NAMES.forEach(name => { target[name] /= targetTotal; });
+    }
+    return target;
+  }
+
+  private smooth(target: VisemeWeights, deltaSeconds: number): VisemeWeights {
+    const attack = 1 - Math.exp(-deltaSeconds / ATTACK_TAU);
+    const release = 1 - Math.exp(-deltaSeconds / RELEASE_TAU);
+
+    const next = {} as VisemeWeights;
+    let changed = false;
+    VISEME_NAMES.forEach(name => {
+      const from = this.current[name];
+      const to = target[name];
+      const value = from + (to - from) * (to > from ? attack : release);
+      next[name] = value;
+      if (Math.abs(value - from) > CHANGE_EPSILON) changed = true;
+    });
+
+    if (changed) this.current = next;
+    return this.current;
+  }
+}
@@ -0,0 +1,96 @@
+import { VisemeWeights } from '../types';
+import { ANALYSER_FFT_SIZE, ANALYSER_SMOOTHING, VisemeEngine } from './visemeEngine';
+
+// AnalyserNode defaults, which the live pipeline leaves untouched
+const MIN_DECIBELS = -100;
+const MAX_DECIBELS = -30;
+
+/**
+ * Reproduces what an AnalyserNode reports for a window of samples: Blackman-windowed FFT
+ * magnitudes, smoothed over time and scaled to bytes, plus the raw waveform as bytes.
+ */
+class OfflineAnalyser {
+  readonly frequencyData = new Uint8Array(ANALYSER_FFT_SIZE / 2);
+  readonly timeDomainData = new Uint8Array(ANALYSER_FFT_SIZE);
+  private window = new Float32Array(ANALYSER_FFT_SIZE);
+  private smoothed = new Float32Array(ANALYSER_FFT_SIZE / 2);
+  private real = new Float32Array(ANALYSER_FFT_SIZE);
+  private imag = new Float32Array(ANALYSER_FFT_SIZE);
+
+  constructor() {
+    const n = ANALYSER_FFT_SIZE;
+    for (let i = 0; i < n; i++) {
+      this.window[i] = 0.42 - 0.5 * Math.cos((2 * Math.PI * i) / n) + 0.08 * Math.cos((4 * Math.PI * i) / n);
+    }
+  }
+
+  /**
+   * Analyses the ANALYSER_FFT_SIZE samples that end at `end`; samples before the start are silence.
+   */
+  analyse(samples: Float32Array, end: number) {
+    const n = ANALYSER_FFT_SIZE;
+    for (let i = 0; i < n; i++) {
+      const index = end - n + i;
+      const sample = index >= 0 && index < samples.length ? samples[index] : 0;
+      this.timeDomainData[i] = Math.max(0, Math.min(255, Math.floor(128 * (sample + 1))));
+      this.real[i] = sample * this.window[i];
+      this.imag[i] = 0;
+    }
+    fft(this.real, this.imag);
+
+    const range = MAX_DECIBELS - MIN_DECIBELS;
+    for (let k = 0; k < n / 2; k++) {
+      const magnitude = Math.hypot(this.real[k], this.imag[k]) / n;
+      this.smoothed[k] = ANALYSER_SMOOTHING * this.smoothed[k] + (1 - ANALYSER_SMOOTHING) * magnitude;
+      const db = this.smoothed[k] > 0 ? 20 * Math.log10(this.smoothed[k]) : -Infinity;
+      this.frequencyData[k] = Math.max(0, Math.min(255, Math.floor((255 * (db - MIN_DECIBELS)) / range)));
+    }
+  }
+}
+
+/**
+ * In-place iterative radix-2 FFT; the length must be a power of two.
+ */
+function fft(real: Float32Array, imag: Float32Array) {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k), sin = Math.sin(angle * k);
+        const a = start + k, b = a + size / 2;
+        const tr = real[b] * cos - imag[b] * sin;
+        const ti = real[b] * sin + imag[b] * cos;
+        real[b] = real[a] - tr;
+        imag[b] = imag[a] - ti;
+        real[a] += tr;
+        imag[a] += ti;
+      }
+    }
+  }
+}
+
+/**
+ * Lip sync for pre-rendered audio: the viseme weights for each video frame, computed the same way
+ * the live analyser loop does, but from the samples up to each frame's time instead of whatever
+ * happens to be playing. The same audio always gives the same curves.
+ */
+export function computeVisemeTrack(samples: Float32Array, sampleRate: number, fps: number, frameCount: number): VisemeWeights[] {
+  const analyser = new OfflineAnalyser();
+  const engine = new VisemeEngine();
+  const track: VisemeWeights[] = [];
+  for (let frame = 0; frame < frameCount; frame++) {
+    analyser.analyse(samples, Math.round((frame / fps) * sampleRate));
+    track.push(engine.analyse(analyser.frequencyData, analyser.timeDomainData, sampleRate, 1 / fps));
+  }
+  return track;
+}
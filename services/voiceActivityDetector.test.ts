@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { VoiceActivityDetector } from './voiceActivityDetector';
+
+const FRAME_MS = 20;
+const LOUD = 0.1;
+const QUIET = 0.001;
+
+// Feeds `count` frames at one level and returns the events that came out
+function feed(vad: VoiceActivityDetector, rms: number, count: number) {
+  return Array.from({ length: count }, () => vad.process(rms, FRAME_MS));
+}
+
+describe('VoiceActivityDetector', () => {
+  it('starts once speech has lasted the attack time', () => {
+    const vad = new VoiceActivityDetector({ attackMs: 100 });
+    expect(feed(vad, LOUD, 4)).toEqual([null, null, null, null]);
+    expect(vad.process(LOUD, FRAME_MS)).toBe('start');
+    expect(vad.isSpeaking).toBe(true);
+  });
+
+  it('ignores bursts shorter than the attack time', () => {
+    const vad = new VoiceActivityDetector({ attackMs: 100 });
+    feed(vad, LOUD, 4);
+    feed(vad, QUIET, 1);
+    expect(feed(vad, LOUD, 4)).not.toContain('start');
+    expect(vad.isSpeaking).toBe(false);
+  });
+
+  it('ends only after the hangover time of silence', () => {
+    const vad = new VoiceActivityDetector({ attackMs: 100, hangoverMs: 700 });
+    feed(vad, LOUD, 5);
+    // A pause between words shorter than the hangover keeps the turn open
+    expect(feed(vad, QUIET, 34)).not.toContain('end');
+    feed(vad, LOUD, 1);
+    expect(feed(vad, QUIET, 34)).not.toContain('end');
+    expect(vad.process(QUIET, FRAME_MS)).toBe('end');
+    expect(vad.isSpeaking).toBe(false);
+  });
+
+  it('raises the threshold with the background noise', () => {
+    const vad = new VoiceActivityDetector({ attackMs: 100 });
+    // A steady 0.01 hum pulls the noise floor up, so the threshold ends up around 0.03
+    feed(vad, 0.01, 200);
+    expect(feed(vad, 0.02, 20)).not.toContain('start');
+    expect(feed(vad, LOUD, 5)).toContain('start');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Energy-based voice activity detection for microphone frames.
+ * Tracks an adaptive noise floor so a humming office does not count as speech,
+ * and uses hysteresis (several loud frames to open, a hangover period to close)
+ * so short pauses between words don't split a sentence into separate turns.
+ */
+export interface VoiceActivityOptions {
+  minThreshold: number;  // RMS (0-1) below which a frame is never speech
+  noiseRatio: number;    // how far above the noise floor a frame must be to count as speech
+  attackMs: number;      // continuous speech needed before activity starts
+  hangoverMs: number;    // continuous silence needed before activity ends
+}
+
+export type VoiceActivityEvent = 'start' | 'end' | null;
+
+const DEFAULT_OPTIONS: VoiceActivityOptions = {
+  minThreshold: 0.015,
+  noiseRatio: 3,
+  attackMs: 100,
+  hangoverMs: 700,
+};
+
+export class VoiceActivityDetector {
+  private options: VoiceActivityOptions;
+  private noiseFloor = 0.005;
+  private speechMs = 0;
+  private silenceMs = 0;
+  private speaking = false;
+
+  constructor(options: Partial<VoiceActivityOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  get isSpeaking() {
+    return this.speaking;
+  }
+
+  reset() {
+    this.speechMs = 0;
+    this.silenceMs = 0;
+    this.speaking = false;
+  }
+
+  /**
+   * Feeds one frame's RMS level and returns 'start'/'end' when the speaking state flips.
+   */
+  process(rms: number, frameMs: number): VoiceActivityEvent {
+    const threshold = Math.max(this.options.minThreshold, this.noiseFloor * this.options.noiseRatio);
+    const isLoud = rms > threshold;
+
+    if (!isLoud) {
+      // Only adapt the floor on quiet frames so speech doesn't raise it
+      this.noiseFloor += (rms - this.noiseFloor) * 0.05;
+    }
+
+    if (isLoud) {
+      this.speechMs += frameMs;
+      this.silenceMs = 0;
+    } else {
+      this.silenceMs += frameMs;
+      this.speechMs = 0;
+    }
+
+    if (!this.speaking && this.speechMs >= this.options.attackMs) {
+      this.speaking = true;
+      return 'start';
+    }
+    if (this.speaking && this.silenceMs >= this.options.hangoverMs) {
+      this.speaking = false;
+      return 'end';
+    }
+    return null;
+  }
+}
@@ -0,0 +1,96 @@
+import { VRM, VRMHumanBoneName, VRMUtils } from '@pixiv/three-vrm';
+import { Object3D } from 'three';
+import { Expression, ExpressionName, HumanoidBoneName, VisemeName, VisemeWeights } from '../types';
+
+const VRM_BONES: Record<HumanoidBoneName, VRMHumanBoneName[]> = {
+  hips: ['hips'], spine: ['upperChest', 'chest', 'spine'], neck: ['neck'], head: ['head'],
+  leftEye: ['leftEye'], rightEye: ['rightEye'],
+  leftShoulder: ['leftShoulder'], leftArm: ['leftUpperArm'], leftForeArm: ['leftLowerArm'], leftHand: ['leftHand'],
+  rightShoulder: ['rightShoulder'], rightArm: ['rightUpperArm'], rightForeArm: ['rightLowerArm'], rightHand: ['rightHand'],
+};
+
+/**
+ * The VRM's own humanoid mapping. These are its normalized bones: they rest in a T-pose with
+ * aligned axes, and vrm.update() copies their pose onto the real skeleton.
+ */
+export function getVrmHumanoidBones(vrm: VRM): Partial<Record<HumanoidBoneName, Object3D>> {
+  const bones: Partial<Record<HumanoidBoneName, Object3D>> = {};
+  (Object.keys(VRM_BONES) as HumanoidBoneName[]).forEach(name => {
+    const node = VRM_BONES[name].map(vrmName => vrm.humanoid.getNormalizedBoneNode(vrmName)).find(Boolean);
+    if (node) bones[name] = node;
+  });
+  return bones;
+}
+
+/**
+ * One-time setup of a freshly loaded VRM. Safe to repeat, since useGLTF hands out the same cached model.
+ */
+export function prepareVrm(vrm: VRM) {
+  // VRM 0.x models face -Z; turn them to face the camera like every other model
+  VRMUtils.rotateVRM0(vrm);
+  // The avatar's gaze sets yaw and pitch itself
+  if (vrm.lookAt) vrm.lookAt.autoUpdate = false;
+  // Skinned meshes are culled by their bind-pose bounds, which cuts off posed limbs and hair
+  vrm.scene.traverse(node => { node.frustumCulled = false; });
+}
+
+// VRM mouth presets, each driven by the Oculus visemes that share its shape
+const VRM_VISEME_WEIGHTS: Record<'aa' | 'ih' | 'ou' | 'ee' | 'oh', Partial<Record<VisemeName, number>>> = {
+  aa: { viseme_aa: 1, viseme_kk: 0.3, viseme_RR: 0.3, viseme_TH: 0.2 },
+  ih: { viseme_I: 1, viseme_CH: 0.5, viseme_SS: 0.4 },
+  ou: { viseme_U: 1, viseme_FF: 0.2 },
+  ee: { viseme_E: 1, viseme_DD: 0.3, viseme_nn: 0.3 },
+  oh: { viseme_O: 1 },
+};
+
+export function getVrmMouthWeights(visemes: VisemeWeights): Record<string, number> {
+  const weights: Record<string, number> = {};
+  Object.entries(VRM_VISEME_WEIGHTS).forEach(([preset, sources]) => {
+    let weight = 0;
+    Object.entries(sources).forEach(([viseme, amount]) => { weight += visemes[viseme as VisemeName] * amount!; });
+    weights[preset] = Math.min(1, weight);
+  });
+  return weights;
+}
+
+/**
+ * VRM emotion presets for each expression. VRM has no preset for thinking, so it borrows a calm,
+ * slightly serious face.
+ */
+export const VRM_EXPRESSION_PRESETS: Record<ExpressionName, Record<string, number>> = {
+  neutral: { relaxed: 0.2 },
+  happy: { happy: 1 },
+  sad: { sad: 1 },
+  surprised: { surprised: 1 },
+  thinking: { relaxed: 0.3, sad: 0.15 },
+  angry: { angry: 1 },
+};
+
+export const VRM_EXPRESSION_NAMES = Array.from(new Set(Object.values(VRM_EXPRESSION_PRESETS).flatMap(Object.keys)));
+
+export function getVrmExpressionWeights(expression: Required<Expression>): Record<string, number> {
+  const weights: Record<string, number> = {};
+  Object.entries(VRM_EXPRESSION_PRESETS[expression.name]).forEach(([preset, weight]) => {
+    weights[preset] = weight * expression.intensity;
+  });
+  return weights;
+}
+
+/**
+ * Approximates tracked ARKit blendshapes with VRM presets, for models without perfect-sync morphs.
+ */
+export function faceFrameToVrmWeights(blendshapes: Record<string, number>): Record<string, number> {
+  const b = (name: string) => blendshapes[name] ?? 0;
+  const smile = (b('mouthSmileLeft') + b('mouthSmileRight')) / 2;
+  return {
+    blinkLeft: b('eyeBlinkLeft'),
+    blinkRight: b('eyeBlinkRight'),
+    aa: b('jawOpen'),
+    ou: b('mouthPucker'),
+    oh: b('mouthFunnel'),
+    happy: smile,
+    surprised: Math.min(1, b('browInnerUp') * Math.max(b('eyeWideLeft'), b('eyeWideRight')) * 2),
+    angry: (b('browDownLeft') + b('browDownRight')) / 2,
+    sad: Math.max(0, (b('mouthFrownLeft') + b('mouthFrownRight')) / 2 - smile),
+  };
+}
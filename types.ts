@@ -1,17 +1,147 @@
+import type { Object3D } from 'three';
+
 export interface Message {
   id: string;
   role: 'user' | 'model';
   text: string;
   timestamp: Date;
+  isPartial?: boolean; // true while a live transcript is still streaming in; re-emitted with the same id
+}
+
+// How much of the text chat history is sent with each request. Turns beyond the limits are
+// summarized (or dropped, with summarize: false) so requests stay bounded
+export interface ContextPolicy {
+  maxTurns?: number; // user messages with their replies
+  maxTokens?: number; // estimated tokens of the history, not counting the system instruction
+  summarize?: boolean;
+}
+
+// Summary of the turns before `upToId`, which no longer go out in full
+export interface ContextSummary {
+  upToId: string; // the last message the summary covers
+  text: string;
+}
+
+// A saved text/voice conversation
+export interface ConversationSession {
+  id: string;
+  title: string;
+  personaId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: Message[];
+  summary?: ContextSummary;
+}
+
+export type UtterancePriority = 'low' | 'normal' | 'high';
+
+// What a new utterance does to the one currently playing:
+// 'queue' waits for it, 'interrupt' cuts it off if it has a lower priority, 'replace' cancels everything playing or queued
+export type InterruptPolicy = 'queue' | 'interrupt' | 'replace';
+
+export interface UtteranceOptions {
+  id?: string; // generated when omitted
+  priority?: UtterancePriority; // defaults to 'normal'
+  interrupt?: InterruptPolicy; // defaults to 'queue'
+  text?: string; // caption text for audio streams, e.g. the live transcript so far
+  translation?: string; // second caption line in bilingual mode
+}
+
+// When a word (or character, for CJK text) is heard, relative to the start of its utterance
+export interface WordTiming {
+  text: string;
+  startMs: number;
+  endMs: number;
+}
+
+export type UtteranceEndReason = 'completed' | 'cancelled' | 'interrupted' | 'failed';
+
+export interface UtteranceEvent {
+  type: 'queued' | 'started' | 'progress' | 'ended';
+  id: string;
+  text?: string; // undefined for raw audio without a transcript
+  translation?: string;
+  words?: WordTiming[]; // exact timings, when the TTS provider supplies them
+  timestamp: number; // performance.now() when the event happened
+  elapsedMs?: number; // audio played so far, on 'progress' and 'ended'
+  durationMs?: number; // audio known so far; grows while a stream is still receiving chunks
+  reason?: UtteranceEndReason; // on 'ended'
 }
 
 export enum ConnectionState {
   DISCONNECTED = 'DISCONNECTED',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING', // the session dropped and is being resumed; the microphone stays open
   ERROR = 'ERROR',
 }
 
+export enum LiveErrorCause {
+  MIC_DENIED = 'MIC_DENIED', // the user or the browser blocked the microphone
+  NO_MIC = 'NO_MIC',         // no microphone, or it is in use elsewhere
+  AUTH = 'AUTH',             // bad API key, token or backend configuration
+  QUOTA = 'QUOTA',           // rate limited or out of quota
+  NETWORK = 'NETWORK',       // connection lost or unreachable; retried automatically
+  UNKNOWN = 'UNKNOWN',
+}
+
+export interface LiveError {
+  cause: LiveErrorCause;
+  message: string; // readable, for the UI
+  detail?: string; // what the browser or server said, for logs
+}
+
+/**
+ * Extra information passed along with a connection state change.
+ */
+export interface ConnectionDetails {
+  error?: LiveError;         // why the session failed (ERROR) or dropped (RECONNECTING)
+  reconnectAttempt?: number; // RECONNECTING: 1 for the first retry
+  reconnectInMs?: number;    // RECONNECTING: delay before the attempt
+  sessionEndsInMs?: number;  // CONNECTED: the server will end the connection soon; it is resumed automatically
+}
+
+export enum InputMode {
+  ALWAYS_ON = 'ALWAYS_ON',       // stream every microphone frame, server decides when the user speaks
+  PUSH_TO_TALK = 'PUSH_TO_TALK', // only stream while the talk button/key is held
+  VOICE_ACTIVITY = 'VOICE_ACTIVITY', // stream only frames the local VAD classifies as speech
+}
+
+export type ExpressionName = 'neutral' | 'happy' | 'sad' | 'surprised' | 'thinking' | 'angry';
+
+export interface Expression {
+  name: ExpressionName;
+  intensity?: number;    // 0 to 1, scales the preset, defaults to 1
+  transitionMs?: number; // blend time from the previous expression, defaults to 400
+}
+
+export type LookAtTarget = 'viewer' | 'left' | 'right' | 'up' | 'down';
+
+// Where eyes and head point: a direction ('viewer' follows the camera), the mouse pointer, a world position,
+// or an object in the scene such as another avatar's head
+export type GazeTarget = LookAtTarget | 'pointer' | [number, number, number] | Object3D;
+
+export interface GazeOptions {
+  eyeShare?: number; // 0 to 1, how much of a turn the eyes take before the head follows, defaults to 0.4
+  maxEyeYaw?: number; // degrees, defaults to 30
+  maxEyePitch?: number; // degrees, defaults to 20
+  maxHeadYaw?: number; // degrees, defaults to 50
+  maxHeadPitch?: number; // degrees, defaults to 30
+  saccades?: boolean; // small involuntary eye jumps, defaults to true
+}
+
+// One frame of webcam face tracking, in the avatar's conventions
+export interface FaceTrackingFrame {
+  blendshapes: Record<string, number>; // ARKit names, 0 to 1
+  headRotation: { pitch: number, yaw: number, roll: number }; // radians; positive yaw turns to the avatar's left, positive pitch looks down
+}
+
+export interface FaceTrackingOptions {
+  wasmPath?: string; // folder with the MediaPipe tasks-vision wasm files, defaults to '/mediapipe/wasm'
+  modelPath?: string; // face landmarker model, defaults to '/models/face_landmarker.task'
+  mirror?: boolean; // move like a mirror image of the user, defaults to true
+}
+
 export interface AnimationControl {
   name: string;
   play: () => void;
@@ -19,10 +149,29 @@ export interface AnimationControl {
   isActive: boolean;
 }
 
+// How a manual morph value combines with the procedural animation (lip sync, blinking, smile)
+// 'override' replaces the procedural value, 'additive' adds to it (clamped to 1)
+export type MorphBlendMode = 'override' | 'additive';
+
 export interface MorphTargetControl {
   name: string;
   value: number; // 0 to 1
   index: number;
+  setValue: (value: number, mode?: MorphBlendMode) => void;
+  reset: () => void; // hand the morph back to procedural animation
+}
+
+export type HumanoidBoneName =
+  | 'hips' | 'spine' | 'neck' | 'head' | 'leftEye' | 'rightEye'
+  | 'leftShoulder' | 'leftArm' | 'leftForeArm' | 'leftHand'
+  | 'rightShoulder' | 'rightArm' | 'rightForeArm' | 'rightHand';
+
+// Which skeleton bone plays which humanoid role; values are node names as they appear in the model
+export type BoneMapping = Partial<Record<HumanoidBoneName, string>>;
+
+export interface RigOptions {
+  profile?: string; // force a built-in profile ('readyPlayerMe', 'mixamo', 'vroid', 'generic') instead of auto-detection
+  bones?: BoneMapping; // manual mapping, applied on top of the profile
 }
 
 export interface BoneControl {
@@ -30,7 +179,104 @@ export interface BoneControl {
   setRotation: (axis: 'x' | 'y' | 'z', valueInDegrees: number) => void;
 }
 
+// How the model's mouth follows speech: the Oculus viseme set, VRM mouth presets, a single jaw-open morph, or not at all
+export type LipSyncSupport = 'visemes' | 'vrm' | 'jaw' | 'none';
+
+export type ModelWarningCode = 'no-lip-sync' | 'partial-visemes' | 'no-blink' | 'no-skeleton' | 'missing-bones' | 'large-texture' | 'high-polycount';
+
+export interface ModelWarning {
+  code: ModelWarningCode;
+  message: string;
+}
+
+export interface ModelTexture {
+  name: string;
+  width: number;
+  height: number;
+}
+
+// What a loaded model supports, from inspecting it once on load
+export interface ModelReport {
+  format: 'gltf' | 'vrm';
+  lipSync: LipSyncSupport;
+  visemes: number; // Oculus visemes found, out of 15
+  arkitBlendshapes: number; // ARKit blendshapes found, out of 52
+  eyeBlink: boolean;
+  rigProfile: string;
+  bonesFound: HumanoidBoneName[];
+  bonesMissing: HumanoidBoneName[];
+  animations: string[];
+  polycount: number; // triangles
+  textures: ModelTexture[];
+  warnings: ModelWarning[];
+}
+
+export type ModelLoadErrorKind = 'not-found' | 'network' | 'empty' | 'parse';
+
+export interface ModelLoadError {
+  kind: ModelLoadErrorKind;
+  message: string; // shown to the user
+  detail: string; // the underlying loader error
+}
+
 export type Background = {
   type: 'color' | 'image' | 'hdri' | 'gradient';
   value: string;
-};
\ No newline at end of file
+};
+
+// Model names per path, for engines that offer several
+export interface PersonaModels {
+  text?: string;
+  live?: string;
+  tts?: string;
+}
+
+// A character: who the avatar is, how it sounds and what it looks like. Text chat, live voice
+// and TTS all read from the same persona.
+export interface Persona {
+  id: string;
+  name: string;
+  systemInstruction: string;
+  voiceName?: string;
+  language?: string; // BCP 47, e.g. 'zh-CN'
+  speakingStyle?: string; // appended to the system instruction, e.g. "warm and brief"
+  expression?: ExpressionName; // resting expression between replies
+  modelUrl?: string;
+  background?: Background;
+  models?: PersonaModels;
+}
+
+// A camera cut in a script; positions are in world units, the camera orbits around `target`
+export interface ScriptCamera {
+  position: [number, number, number];
+  target?: [number, number, number]; // defaults to the scene's orbit target
+  fov?: number; // vertical, in degrees
+}
+
+// One spoken line of a script, with what the avatar does as it starts
+export interface ScriptLine {
+  text: string;
+  expression?: ExpressionName | Expression;
+  animation?: string; // clip to play; ignored when the model has no such animation
+  camera?: ScriptCamera;
+  lookAt?: GazeTarget;
+  pauseMs?: number; // silence after the line, defaults to 400
+}
+
+// A script rendered offline into an image sequence and a WAV file
+export interface AvatarScript {
+  lines: ScriptLine[];
+  fps?: number; // defaults to 30
+  leadInMs?: number; // silence before the first line, defaults to 500
+  seed?: number; // blinking and eye movement; the same seed gives the same frames, defaults to 1
+}
+
+export const VISEME_NAMES = [
+  'viseme_sil', 'viseme_PP', 'viseme_FF', 'viseme_TH', 'viseme_DD',
+  'viseme_kk', 'viseme_CH', 'viseme_SS', 'viseme_nn', 'viseme_RR',
+  'viseme_aa', 'viseme_E', 'viseme_I', 'viseme_O', 'viseme_U',
+] as const;
+
+export type VisemeName = typeof VISEME_NAMES[number];
+
+export type VisemeWeights = Record<VisemeName, number>; // each 0 to 1
@@ -1,7 +1,32 @@
+import { readFileSync, readdirSync } from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const MEDIAPIPE_WASM_DIR = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/wasm');
+const MEDIAPIPE_WASM_URL = '/mediapipe/wasm/';
+
+// Serves the face tracker's wasm files from the installed package at /mediapipe/wasm, in dev and in
+// the build, so the app never fetches them from a CDN and they can't drift from the package version
+function mediapipeWasm(): Plugin {
+  return {
+    name: 'mediapipe-wasm',
+    configureServer(server) {
+      server.middlewares.use(MEDIAPIPE_WASM_URL, (req, res, next) => {
+        const file = path.basename((req.url || '').split('?')[0]);
+        if (!readdirSync(MEDIAPIPE_WASM_DIR).includes(file)) return next();
+        res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+        res.end(readFileSync(path.join(MEDIAPIPE_WASM_DIR, file)));
+      });
+    },
+    generateBundle() {
+      for (const file of readdirSync(MEDIAPIPE_WASM_DIR)) {
+        this.emitFile({ type: 'asset', fileName: `mediapipe/wasm/${file}`, source: readFileSync(path.join(MEDIAPIPE_WASM_DIR, file)) });
+      }
+    },
+  };
+}
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +34,10 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeWasm()],
+      // Only the backend URL reaches the bundle; GEMINI_API_KEY stays with the server in server/
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.BACKEND_URL': JSON.stringify(env.BACKEND_URL)
       },
       resolve: {
         alias: {